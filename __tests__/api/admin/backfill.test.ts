@@ -0,0 +1,130 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../../pages/api/admin/backfill";
+
+// Mock the backfill service
+jest.mock("../../../src/services/backfillService", () => ({
+  backfillService: {
+    backfill: jest.fn(),
+  },
+}));
+
+const mockBackfillService =
+  require("../../../src/services/backfillService").backfillService;
+
+describe("/api/admin/backfill", () => {
+  const originalToken = process.env.ADMIN_API_TOKEN;
+  const backfillResult: BackfillResult = {
+    gaps: ["2025-09-11"],
+    filled: ["2025-09-11"],
+    failed: [],
+    remaining: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.ADMIN_API_TOKEN = "secret-token";
+    mockBackfillService.backfill.mockResolvedValue({
+      success: true,
+      data: backfillResult,
+    });
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_API_TOKEN = originalToken;
+  });
+
+  it("should return 503 when no admin token is configured", async () => {
+    delete process.env.ADMIN_API_TOKEN;
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: { authorization: "Bearer secret-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(503);
+    expect(mockBackfillService.backfill).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 without a valid bearer token", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: { authorization: "Bearer wrong-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(401);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Unauthorized",
+      message: "A valid bearer token is required",
+    });
+    expect(mockBackfillService.backfill).not.toHaveBeenCalled();
+  });
+
+  it("should only report gaps for GET requests", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer secret-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockBackfillService.backfill).toHaveBeenCalledWith({
+      limit: 10,
+      dryRun: true,
+    });
+  });
+
+  it("should backfill for POST requests", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      query: { limit: "5" },
+      headers: { authorization: "Bearer secret-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockBackfillService.backfill).toHaveBeenCalledWith({
+      limit: 5,
+      dryRun: false,
+    });
+    expect(JSON.parse(res._getData())).toEqual(backfillResult);
+  });
+
+  it("should return 400 for invalid limit parameter", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      query: { limit: "100" },
+      headers: { authorization: "Bearer secret-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid limit parameter",
+      message: "Limit parameter must be between 1 and 31",
+    });
+  });
+
+  it("should return 500 when the backfill fails", async () => {
+    mockBackfillService.backfill.mockResolvedValue({
+      success: false,
+      error: "Price history: HTTP 429: Too Many Requests",
+    });
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: { authorization: "Bearer secret-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(500);
+    expect(JSON.parse(res._getData()).message).toBe(
+      "Price history: HTTP 429: Too Many Requests"
+    );
+  });
+});
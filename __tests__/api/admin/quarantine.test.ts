@@ -0,0 +1,206 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../../pages/api/admin/quarantine";
+
+// Mock the storage service
+jest.mock("../../../src/services/storageService", () => ({
+  storageService: {
+    getQuarantinedRecords: jest.fn(),
+    getQuarantinedRecord: jest.fn(),
+    approveQuarantinedRecord: jest.fn(),
+  },
+}));
+
+const mockStorageService =
+  require("../../../src/services/storageService").storageService;
+
+describe("/api/admin/quarantine", () => {
+  const originalToken = process.env.ADMIN_API_TOKEN;
+  const auth = { authorization: "Bearer secret-token" };
+
+  const quarantined: QuarantinedRecord = {
+    date: "2025-09-12",
+    entry: 1,
+    status: "pending",
+    quarantined_at: "2025-09-12T10:00:00.000Z",
+    data: {
+      date: "2025-09-12",
+      burned_supply: "50000000",
+      treasury_supply: "150000000",
+      price_usd: 0.3,
+      on_chain_liquidity_usd: 100000,
+      burned_supply_usd: 15000000,
+      treasury_supply_usd: 45000000,
+    },
+    responses: [
+      {
+        url: "https://api.coingecko.com/api/v3/coins/mars",
+        fetched_at: "2025-09-12T09:59:59.000Z",
+        body: { market_data: { current_price: { usd: 0.3 } } },
+      },
+    ],
+    errors: ["Extreme price change: 100.00% (max: ±50%)"],
+    warnings: [],
+    findings: [
+      {
+        rule_id: "price_change_error",
+        severity: "error",
+        message: "Extreme price change: 100.00% (max: ±50%)",
+        metrics: ["price_usd"],
+      },
+    ],
+    invalid_fields: ["price_usd"],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.ADMIN_API_TOKEN = "secret-token";
+    mockStorageService.getQuarantinedRecords.mockResolvedValue({
+      success: true,
+      data: [quarantined],
+    });
+    mockStorageService.getQuarantinedRecord.mockResolvedValue({
+      success: true,
+      data: quarantined,
+    });
+    mockStorageService.approveQuarantinedRecord.mockResolvedValue({
+      success: true,
+      data: {
+        ...quarantined,
+        status: "approved",
+        approved_at: "2025-09-12T11:00:00.000Z",
+      },
+    });
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_API_TOKEN = originalToken;
+  });
+
+  it("should return 401 without a valid bearer token", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: { authorization: "Bearer wrong-token" },
+      query: { date: "2025-09-12", entry: "1" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(401);
+    expect(mockStorageService.approveQuarantinedRecord).not.toHaveBeenCalled();
+  });
+
+  it("should list entries without payloads", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: auth,
+      query: { from: "2025-09-01", to: "2025-09-30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockStorageService.getQuarantinedRecords).toHaveBeenCalledWith(
+      "2025-09-01",
+      "2025-09-30"
+    );
+    const body = JSON.parse(res._getData());
+    expect(body.meta).toEqual({
+      range: { from: "2025-09-01", to: "2025-09-30" },
+      total_entries: 1,
+    });
+    expect(body.data[0]).toMatchObject({ date: "2025-09-12", entry: 1 });
+    expect(body.data[0].data).toBeUndefined();
+    expect(body.data[0].responses).toBeUndefined();
+  });
+
+  it("should default to the last 30 days", async () => {
+    const { req, res } = createMocks({ method: "GET", headers: auth });
+
+    await handler(req, res);
+
+    const { range } = JSON.parse(res._getData()).meta;
+    const days = (Date.parse(range.to) - Date.parse(range.from)) / 86400000 + 1;
+    expect(days).toBe(30);
+  });
+
+  it("should return one entry with its upstream responses", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: auth,
+      query: { date: "2025-09-12", entry: "1" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({ data: quarantined });
+  });
+
+  it("should approve an entry for POST requests", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: auth,
+      query: { date: "2025-09-12", entry: "1" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(mockStorageService.approveQuarantinedRecord).toHaveBeenCalledWith(
+      "2025-09-12",
+      1
+    );
+    expect(JSON.parse(res._getData()).data.status).toBe("approved");
+  });
+
+  it("should not approve an entry twice", async () => {
+    mockStorageService.getQuarantinedRecord.mockResolvedValue({
+      success: true,
+      data: {
+        ...quarantined,
+        status: "approved",
+        approved_at: "2025-09-12T11:00:00.000Z",
+      },
+    });
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: auth,
+      query: { date: "2025-09-12", entry: "1" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(409);
+    expect(mockStorageService.approveQuarantinedRecord).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for a missing entry", async () => {
+    mockStorageService.getQuarantinedRecord.mockResolvedValue({
+      success: false,
+      error: "No quarantine entry 2 found for date: 2025-09-12",
+      notFound: true,
+    });
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: auth,
+      query: { date: "2025-09-12", entry: "2" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+  });
+
+  it("should require a date and entry to approve", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: auth,
+      query: { date: "2025-09-12", entry: "0" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toBe("Invalid entry parameter");
+  });
+});
@@ -0,0 +1,199 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../../pages/api/cron/index-data";
+
+// Mock the data sources so no request reaches upstream APIs or blob storage
+jest.mock("../../../src/services/dataFetcher", () => ({
+  dataFetcher: {
+    fetchAllData: jest.fn(),
+  },
+}));
+
+jest.mock("../../../src/services/storageService", () => ({
+  storageService: {
+    dataExistsForDate: jest.fn(),
+    getData: jest.fn(),
+    getDataByDateRange: jest.fn(),
+    storeData: jest.fn(),
+    storeHourlySnapshot: jest.fn(),
+    storeTreasuryEvent: jest.fn(),
+  },
+}));
+
+const mockDataFetcher =
+  require("../../../src/services/dataFetcher").dataFetcher;
+const mockStorageService =
+  require("../../../src/services/storageService").storageService;
+
+describe("/api/cron/index-data", () => {
+  const originalEnv = { ...process.env };
+
+  const fetchedData: DailyTokenomicsData = {
+    date: new Date().toISOString().split("T")[0],
+    total_supply: "1000000000",
+    circulating_supply: "800000000",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    total_supply_usd: 150000000,
+    circulating_supply_usd: 120000000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CRON_SECRET = "cron-secret";
+    delete process.env.CRON_AUTH_TOKEN;
+
+    mockStorageService.dataExistsForDate.mockResolvedValue(false);
+    mockStorageService.getData.mockResolvedValue({
+      success: false,
+      error: "No data found",
+      notFound: true,
+    });
+    mockStorageService.getDataByDateRange.mockResolvedValue({
+      success: true,
+      data: [],
+    });
+    mockStorageService.storeData.mockResolvedValue({
+      success: true,
+      data: "url",
+    });
+    mockStorageService.storeHourlySnapshot.mockResolvedValue({
+      success: true,
+      data: "url",
+    });
+    mockDataFetcher.fetchAllData.mockResolvedValue({
+      date: fetchedData.date,
+      metrics: {},
+      failedMetrics: [],
+      data: fetchedData,
+    });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("should return 401 without a bearer token", async () => {
+    const { req, res } = createMocks({ method: "GET" });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(401);
+    expect(JSON.parse(res._getData())).toMatchObject({
+      success: false,
+      message: "Unauthorized",
+    });
+    expect(mockDataFetcher.fetchAllData).not.toHaveBeenCalled();
+    expect(mockStorageService.storeData).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 for a wrong bearer token", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: { authorization: "Bearer not-the-secret" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(401);
+    expect(mockDataFetcher.fetchAllData).not.toHaveBeenCalled();
+  });
+
+  it("should return 503 when no secret is configured", async () => {
+    delete process.env.CRON_SECRET;
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer " },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(503);
+    expect(mockDataFetcher.fetchAllData).not.toHaveBeenCalled();
+  });
+
+  it("should index data with the CRON_SECRET bearer token", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer cron-secret" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).success).toBe(true);
+    expect(mockStorageService.storeData).toHaveBeenCalledWith(
+      expect.objectContaining({ date: fetchedData.date })
+    );
+  });
+
+  it("should store an hourly snapshot of the indexed data", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer cron-secret" },
+    });
+
+    await handler(req, res);
+
+    expect(mockStorageService.storeHourlySnapshot).toHaveBeenCalledWith(
+      expect.objectContaining({
+        timestamp: expect.stringMatching(/T\d{2}:00:00\.000Z$/),
+        price_usd: 0.15,
+        on_chain_liquidity_usd: 100000,
+      })
+    );
+  });
+
+  it("should only warn when the hourly snapshot cannot be stored", async () => {
+    mockStorageService.storeHourlySnapshot.mockResolvedValue({
+      success: false,
+      error: "Service unavailable",
+    });
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer cron-secret" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).warnings).toContain(
+      "Hourly snapshot not stored: Service unavailable"
+    );
+  });
+
+  it("should accept the configurable token instead of CRON_SECRET", async () => {
+    delete process.env.CRON_SECRET;
+    process.env.CRON_AUTH_TOKEN = "scheduler-token";
+    const { req, res } = createMocks({
+      method: "POST",
+      headers: { authorization: "Bearer scheduler-token" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+  });
+
+  it("should not send permissive CORS headers", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer cron-secret" },
+    });
+
+    await handler(req, res);
+
+    expect(res.getHeader("Access-Control-Allow-Origin")).toBeUndefined();
+  });
+
+  it("should return 405 for other methods, including preflight", async () => {
+    const { req, res } = createMocks({ method: "OPTIONS" });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -0,0 +1,207 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../../pages/api/cron/index-data";
+import { storageService } from "../../../src/services/storageService";
+import { addDays } from "../../../src/utils/date";
+
+// Storage is the real service on the in-memory backend, so the cron reads the
+// previous day exactly as it would in production
+jest.mock("../../../src/services/dataFetcher", () => ({
+  dataFetcher: {
+    fetchAllData: jest.fn(),
+  },
+}));
+
+const mockDataFetcher =
+  require("../../../src/services/dataFetcher").dataFetcher;
+
+describe("/api/cron/index-data previous-day validation", () => {
+  const originalSecret = process.env.CRON_SECRET;
+  const today = new Date().toISOString().split("T")[0];
+  const yesterday = addDays(today, -1);
+
+  const createRecord = (date: string, price: number): DailyTokenomicsData => ({
+    date,
+    total_supply: "1000000000",
+    circulating_supply: "800000000",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: price,
+    on_chain_liquidity_usd: 100000,
+    total_supply_usd: 1000000000 * price,
+    circulating_supply_usd: 800000000 * price,
+    burned_supply_usd: 50000000 * price,
+    treasury_supply_usd: 150000000 * price,
+  });
+
+  const runCron = async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      headers: { authorization: "Bearer cron-secret" },
+    });
+    await handler(req, res);
+    return { status: res._getStatusCode(), body: JSON.parse(res._getData()) };
+  };
+
+  beforeAll(async () => {
+    process.env.CRON_SECRET = "cron-secret";
+    await storageService.storeData(createRecord(yesterday, 0.1));
+  });
+
+  afterAll(() => {
+    process.env.CRON_SECRET = originalSecret;
+  });
+
+  it("should find the previous day through storage", async () => {
+    const { validationService } = await import(
+      "../../../src/services/validationService"
+    );
+
+    const previous = await validationService.getValidationContext(today);
+
+    expect(previous).toMatchObject({ date: yesterday, price_usd: 0.1 });
+  });
+
+  it("should warn about a large change against the previous day", async () => {
+    mockDataFetcher.fetchAllData.mockResolvedValue({
+      date: today,
+      metrics: {},
+      failedMetrics: [],
+      data: createRecord(today, 0.13), // +30%
+      responses: [],
+    });
+
+    const { status, body } = await runCron();
+
+    expect(status).toBe(200);
+    expect(body.usedFallback).toBeFalsy();
+    expect(body.warnings).toContain("Large price change: 30.00%");
+  });
+
+  const coingeckoResponse: UpstreamResponse = {
+    url: "https://api.coingecko.com/api/v3/coins/mars",
+    fetched_at: `${today}T10:00:00.000Z`,
+    body: { market_data: { current_price: { usd: 0.5 } } },
+  };
+
+  it("should fall back to the previous price after an extreme change", async () => {
+    mockDataFetcher.fetchAllData.mockResolvedValue({
+      date: today,
+      metrics: {},
+      failedMetrics: [],
+      data: createRecord(today, 0.5), // +400%
+      responses: [coingeckoResponse],
+    });
+
+    const { status, body } = await runCron();
+
+    expect(status).toBe(200);
+    expect(body.usedFallback).toBe(true);
+    expect(body.errors).toContainEqual(
+      expect.stringContaining("Extreme price change")
+    );
+
+    const stored = await storageService.getData(today);
+    expect(stored.data).toMatchObject({
+      price_usd: 0.1,
+      carried_forward: { fields: ["price_usd"], from_date: yesterday },
+    });
+  });
+
+  it("should quarantine the rejected data with its upstream responses", async () => {
+    const quarantined = await storageService.getQuarantinedRecords(
+      today,
+      today
+    );
+
+    expect(quarantined.data).toHaveLength(1);
+    expect(quarantined.data![0]).toMatchObject({
+      entry: 1,
+      status: "pending",
+      data: { date: today, price_usd: 0.5 },
+      responses: [coingeckoResponse],
+      invalid_fields: ["price_usd"],
+      errors: [expect.stringContaining("Extreme price change")],
+    });
+  });
+
+  it("should keep an approved record when later runs reject the data", async () => {
+    await storageService.approveQuarantinedRecord(today, 1);
+    mockDataFetcher.fetchAllData.mockResolvedValue({
+      date: today,
+      metrics: {},
+      failedMetrics: [],
+      data: createRecord(today, 0.5),
+      responses: [coingeckoResponse],
+    });
+
+    const { status, body } = await runCron();
+
+    expect(status).toBe(200);
+    expect(body.usedFallback).toBeFalsy();
+    expect(body.message).toBe(
+      "Kept the record approved from quarantine entry 1 after validation failures"
+    );
+
+    const stored = await storageService.getData(today);
+    expect(stored.data).toMatchObject({ price_usd: 0.5 });
+    expect(stored.data!.carried_forward).toBeUndefined();
+
+    // The hour is snapshotted from the kept record
+    const snapshots = await storageService.getHourlySnapshots(today, today);
+    expect(snapshots.data![0]).toMatchObject({ price_usd: 0.5 });
+
+    // The rejected run is still kept for review
+    const quarantined = await storageService.getQuarantinedRecords(
+      today,
+      today
+    );
+    expect(
+      quarantined.data!.map(({ entry, status }) => ({ entry, status }))
+    ).toEqual([
+      { entry: 2, status: "pending" },
+      { entry: 1, status: "approved" },
+    ]);
+  });
+
+  it("should validate the next day against the approved values", async () => {
+    const { validationService } = await import(
+      "../../../src/services/validationService"
+    );
+    const tomorrow = addDays(today, 1);
+
+    const result = await validationService.validateData(
+      createRecord(tomorrow, 0.5),
+      (await validationService.getValidationContext(tomorrow)) || undefined,
+      await validationService.getValidationHistory(tomorrow)
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("should fail when the previous day cannot be read", async () => {
+    const getData = jest
+      .spyOn(storageService, "getData")
+      .mockResolvedValueOnce({
+        success: false,
+        error: "Vercel Blob: Too many requests",
+      });
+    mockDataFetcher.fetchAllData.mockResolvedValue({
+      date: today,
+      metrics: {},
+      failedMetrics: [],
+      data: createRecord(today, 0.5),
+      responses: [],
+    });
+
+    const { status, body } = await runCron();
+    getData.mockRestore();
+
+    expect(status).toBe(503);
+    expect(body).toMatchObject({
+      success: false,
+      message:
+        "Validation unavailable: Failed to read the previous day's data: Vercel Blob: Too many requests",
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../pages/api/supply/[metric]";
+
+// Mock the storage service
+jest.mock("../../src/services/storageService", () => ({
+  storageService: {
+    getLatestData: jest.fn(),
+  },
+}));
+
+const mockStorageService =
+  require("../../src/services/storageService").storageService;
+
+describe("/api/supply/[metric]", () => {
+  const mockLatestData: DailyTokenomicsData = {
+    date: "2025-09-12",
+    total_supply: "1000000000",
+    circulating_supply: "800000000",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    total_supply_usd: 150000000,
+    circulating_supply_usd: 120000000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+    updated_at: "2025-09-12T13:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return circulating supply as plain text", async () => {
+    mockStorageService.getLatestData.mockResolvedValue({
+      success: true,
+      data: mockLatestData,
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "circulating" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res._getData()).toBe("800000000");
+    expect(res.getHeader("Content-Type")).toBe("text/plain; charset=utf-8");
+    expect(res.getHeader("Cache-Control")).toBe(
+      "public, s-maxage=300, stale-while-revalidate=3600"
+    );
+  });
+
+  it("should return total supply as plain text", async () => {
+    mockStorageService.getLatestData.mockResolvedValue({
+      success: true,
+      data: mockLatestData,
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "total" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res._getData()).toBe("1000000000");
+  });
+
+  it("should return JSON when format=json", async () => {
+    mockStorageService.getLatestData.mockResolvedValue({
+      success: true,
+      data: mockLatestData,
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "circulating", format: "json" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader("Content-Type")).toBe("application/json");
+    expect(JSON.parse(res._getData())).toEqual({
+      metric: "circulating",
+      value: "800000000",
+      date: "2025-09-12",
+      last_updated: "2025-09-12T13:00:00.000Z",
+    });
+  });
+
+  it("should return 404 for unknown metrics", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "burned" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+    expect(mockStorageService.getLatestData).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 when the latest record has no supply data", async () => {
+    const legacyData: Partial<DailyTokenomicsData> = { ...mockLatestData };
+    delete legacyData.circulating_supply;
+    mockStorageService.getLatestData.mockResolvedValue({
+      success: true,
+      data: legacyData,
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "circulating" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "No data found",
+      message: "No circulating supply available for 2025-09-12",
+    });
+  });
+
+  it("should return 400 for invalid format parameter", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "total", format: "csv" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+  });
+
+  it("should return 500 when storage service fails", async () => {
+    mockStorageService.getLatestData.mockResolvedValue({
+      success: false,
+      error: "Storage error",
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { metric: "total" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(500);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Data fetch failed",
+      message: "Storage error",
+    });
+  });
+});
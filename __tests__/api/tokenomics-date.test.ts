@@ -0,0 +1,109 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../pages/api/tokenomics/[date]/index";
+import { storageService } from "../../src/services/storageService";
+
+// Uses the in-memory storage backend configured in jest.setup.js
+describe("/api/tokenomics/[date]", () => {
+  const record: DailyTokenomicsData = {
+    date: "2025-09-12",
+    total_supply: "1000000000",
+    circulating_supply: "800000000",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    total_supply_usd: 150000000,
+    circulating_supply_usd: 120000000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+    updated_at: "2025-09-12T23:00:00.000Z",
+  };
+
+  beforeAll(async () => {
+    await storageService.storeData(record);
+  });
+
+  it("should return the stored record for a date", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-12" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({
+      data: { ...record, schema_version: 2 },
+      meta: {
+        token: expect.objectContaining({ symbol: "MARS" }),
+        last_updated: "2025-09-12T23:00:00.000Z",
+      },
+    });
+    expect(res.getHeader("Cache-Control")).toBe(
+      "public, s-maxage=3600, stale-while-revalidate=86400"
+    );
+  });
+
+  it("should return 404 for a date without data", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-11" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "No data found",
+      message: "No tokenomics data available for 2025-09-11",
+    });
+  });
+
+  it("should return 500 when storage fails instead of 404", async () => {
+    const getData = jest
+      .spyOn(storageService, "getData")
+      .mockResolvedValueOnce({
+        success: false,
+        error: "Vercel Blob: Too many requests",
+      });
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-12" },
+    });
+
+    await handler(req, res);
+    getData.mockRestore();
+
+    expect(res._getStatusCode()).toBe(500);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Data fetch failed",
+      message: "Vercel Blob: Too many requests",
+    });
+  });
+
+  it("should return 400 for an invalid date", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-02-30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid date parameter",
+      message: "date must be a valid ISO date (YYYY-MM-DD)",
+    });
+  });
+
+  it("should return 405 for non-GET requests", async () => {
+    const { req, res } = createMocks({
+      method: "POST",
+      query: { date: "2025-09-12" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
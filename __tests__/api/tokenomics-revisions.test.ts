@@ -0,0 +1,128 @@
+import { createMocks } from "node-mocks-http";
+import revisionHandler from "../../pages/api/tokenomics/[date]/revisions/[revision]";
+import listHandler from "../../pages/api/tokenomics/[date]/revisions/index";
+import { storageService } from "../../src/services/storageService";
+
+// Uses the in-memory storage backend configured in jest.setup.js
+describe("/api/tokenomics/[date]/revisions", () => {
+  const record: DailyTokenomicsData = {
+    date: "2025-09-12",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+    updated_at: "2025-09-12T10:00:00.000Z",
+  };
+
+  beforeAll(async () => {
+    await storageService.storeData(record);
+    await storageService.storeData({
+      ...record,
+      price_usd: 0.16,
+      updated_at: "2025-09-12T11:00:00.000Z",
+    });
+    await storageService.storeData({
+      ...record,
+      price_usd: 0.17,
+      updated_at: "2025-09-12T12:00:00.000Z",
+    });
+  });
+
+  it("should list the changes of each revision, newest first", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-12" },
+    });
+
+    await listHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({
+      data: [
+        {
+          revision: 2,
+          replaced_at: "2025-09-12T12:00:00.000Z",
+          changes: [{ field: "price_usd", previous: 0.16, next: 0.17 }],
+        },
+        {
+          revision: 1,
+          replaced_at: "2025-09-12T11:00:00.000Z",
+          changes: [{ field: "price_usd", previous: 0.15, next: 0.16 }],
+        },
+      ],
+      meta: {
+        token: expect.objectContaining({ symbol: "MARS" }),
+        date: "2025-09-12",
+        total_revisions: 2,
+      },
+    });
+  });
+
+  it("should return an empty list for a day never overwritten", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-11" },
+    });
+
+    await listHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).data).toEqual([]);
+  });
+
+  it("should return a revision with the replaced record", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-12", revision: "1" },
+    });
+
+    await revisionHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).data).toEqual({
+      revision: 1,
+      replaced_at: "2025-09-12T11:00:00.000Z",
+      changes: [{ field: "price_usd", previous: 0.15, next: 0.16 }],
+      data: { ...record, schema_version: 2 },
+    });
+  });
+
+  it("should return 404 for an unknown revision", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-12", revision: "3" },
+    });
+
+    await revisionHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(404);
+  });
+
+  it("should return 400 for an invalid revision", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-09-12", revision: "0" },
+    });
+
+    await revisionHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid revision parameter",
+      message: "revision must be a positive integer",
+    });
+  });
+
+  it("should return 400 for an invalid date", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { date: "2025-02-30" },
+    });
+
+    await listHandler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+  });
+});
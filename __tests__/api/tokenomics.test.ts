@@ -6,6 +6,8 @@ jest.mock("../../src/services/storageService", () => ({
   storageService: {
     getAllData: jest.fn(),
     getDataRange: jest.fn(),
+    getDataByDateRange: jest.fn(),
+    getHourlySnapshots: jest.fn(),
   },
 }));
 
@@ -126,6 +128,717 @@ describe("/api/tokenomics", () => {
     expect(responseData.meta.days_requested).toBe(3);
   });
 
+  it("should fetch data for a from/to date range", async () => {
+    const mockData = [
+      createMockData("2025-09-30"),
+      createMockData("2025-07-01"),
+    ];
+
+    mockStorageService.getDataByDateRange.mockResolvedValue({
+      success: true,
+      data: mockData,
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-07-01", to: "2025-09-30" },
+    });
+
+    await handler(req, res);
+
+    expect(mockStorageService.getDataByDateRange).toHaveBeenCalledWith(
+      "2025-07-01",
+      "2025-09-30"
+    );
+    expect(mockStorageService.getDataRange).not.toHaveBeenCalled();
+    expect(res._getStatusCode()).toBe(200);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.meta.days_requested).toBe(92);
+    expect(responseData.meta.range).toEqual({
+      from: "2025-07-01",
+      to: "2025-09-30",
+    });
+  });
+
+  it("should default to today when only from is given", async () => {
+    mockStorageService.getDataByDateRange.mockResolvedValue({
+      success: true,
+      data: [createMockData("2025-09-12")],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-09-01" },
+    });
+
+    await handler(req, res);
+
+    const today = new Date().toISOString().split("T")[0];
+    expect(mockStorageService.getDataByDateRange).toHaveBeenCalledWith(
+      "2025-09-01",
+      today
+    );
+    expect(res._getStatusCode()).toBe(200);
+  });
+
+  it("should return 400 for an invalid from date", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-02-30", to: "2025-03-31" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid from parameter",
+      message: "from must be a valid ISO date (YYYY-MM-DD)",
+    });
+  });
+
+  it("should return 400 when to is given without from", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { to: "2025-09-30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toBe("Invalid from parameter");
+  });
+
+  it("should return 400 for an invalid to date", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-09-01", to: "30-09-2025" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid to parameter",
+      message: "to must be a valid ISO date (YYYY-MM-DD)",
+    });
+  });
+
+  it("should return 400 when from is after to", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-09-30", to: "2025-09-01" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid date range",
+      message: "from must be on or before to",
+    });
+  });
+
+  it("should return 400 when days is combined with from/to", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "30", from: "2025-09-01" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Conflicting parameters",
+      message: "Use either days or from/to, not both",
+    });
+    expect(mockStorageService.getDataByDateRange).not.toHaveBeenCalled();
+  });
+
+  it("should aggregate data into monthly buckets", async () => {
+    const mockData = [
+      { ...createMockData("2025-09-12"), price_usd: 0.2 },
+      { ...createMockData("2025-09-01"), price_usd: 0.1 },
+      createMockData("2025-08-31"),
+    ];
+
+    mockStorageService.getAllData.mockResolvedValue({
+      success: true,
+      data: mockData,
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "all", granularity: "month" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.data.price_usd).toHaveLength(2);
+    expect(responseData.data.price_usd[0]).toEqual({
+      date: "2025-09-01",
+      value_usd: expect.closeTo(0.15),
+      open: 0.1,
+      high: 0.2,
+      low: 0.1,
+      close: 0.2,
+    });
+    expect(responseData.data.on_chain_liquidity_usd[0]).toEqual({
+      date: "2025-09-01",
+      value_usd: 100000,
+      min_usd: 100000,
+      max_usd: 100000,
+    });
+    expect(responseData.meta.granularity).toBe("month");
+    expect(responseData.meta.buckets).toEqual([
+      { start: "2025-09-01", end: "2025-09-30", records: 2 },
+      { start: "2025-08-01", end: "2025-08-31", records: 1 },
+    ]);
+    expect(responseData.meta.total_records).toBe(3);
+  });
+
+  it("should return 400 for invalid granularity parameter", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { granularity: "year" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid granularity parameter",
+      message: "Granularity parameter must be one of: day, week, month",
+    });
+  });
+
+  it("should export CSV when format=csv", async () => {
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [createMockData("2025-09-12"), createMockData("2025-09-11")],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "30", format: "csv" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(res.getHeader("Content-Disposition")).toBe(
+      'attachment; filename="mars-tokenomics-30d.csv"'
+    );
+    expect(res.getHeader("Cache-Control")).toBe(
+      "public, s-maxage=1800, stale-while-revalidate=86400"
+    );
+    expect(res._getData()).toBe(
+      [
+        "date,burned_supply,burned_supply_usd,treasury_supply,treasury_supply_usd,price_usd,on_chain_liquidity_usd",
+        "2025-09-12,50000000,7500000,150000000,22500000,0.15,100000",
+        "2025-09-11,50000000,7500000,150000000,22500000,0.15,100000",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should export NDJSON when requested through the Accept header", async () => {
+    mockStorageService.getDataByDateRange.mockResolvedValue({
+      success: true,
+      data: [createMockData("2025-09-12"), createMockData("2025-09-11")],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-09-01", to: "2025-09-30" },
+      headers: { accept: "application/x-ndjson" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res.getHeader("Content-Type")).toBe("application/x-ndjson");
+    expect(res.getHeader("Content-Disposition")).toBe(
+      'attachment; filename="mars-tokenomics-2025-09-01_2025-09-30.ndjson"'
+    );
+
+    const lines = res._getData().trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual({
+      date: "2025-09-12",
+      burned_supply: "50000000",
+      burned_supply_usd: 7500000,
+      treasury_supply: "150000000",
+      treasury_supply_usd: 22500000,
+      price_usd: 0.15,
+      on_chain_liquidity_usd: 100000,
+    });
+  });
+
+  it("should return 400 for invalid format parameter", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { format: "xml" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid format parameter",
+      message: "Format parameter must be one of: json, csv, ndjson",
+    });
+  });
+
+  it("should expose total and circulating supply series", async () => {
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          ...createMockData("2025-09-12"),
+          total_supply: "1000000000",
+          circulating_supply: "800000000",
+          total_supply_usd: 150000000,
+          circulating_supply_usd: 120000000,
+        },
+        // Stored before supply tracking was added
+        createMockData("2025-09-11"),
+      ],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.data.total_supply).toEqual([
+      { date: "2025-09-12", amount: "1000000000", value_usd: 150000000 },
+    ]);
+    expect(responseData.data.circulating_supply).toEqual([
+      { date: "2025-09-12", amount: "800000000", value_usd: 120000000 },
+    ]);
+    expect(responseData.data.burned_supply).toHaveLength(2);
+  });
+
+  it("should expose per-address and per-category balances", async () => {
+    const withBalances = (
+      date: string,
+      vestingAmount: string
+    ): DailyTokenomicsData => ({
+      ...createMockData(date),
+      address_balances: [
+        {
+          address: "neutron1burn",
+          label: "Burn",
+          category: "burn",
+          amount: "50000000",
+        },
+        {
+          address: "neutron1vesting",
+          label: "Vesting",
+          category: "locked",
+          amount: vestingAmount,
+        },
+      ],
+      category_totals: { burn: "50000000", locked: vestingAmount },
+    });
+
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [
+        withBalances("2025-09-12", "1000"),
+        withBalances("2025-09-11", "2000"),
+      ],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.data.address_balances).toEqual([
+      {
+        address: "neutron1burn",
+        label: "Burn",
+        category: "burn",
+        balances: [
+          { date: "2025-09-12", amount: "50000000", value_usd: 7500000 },
+          { date: "2025-09-11", amount: "50000000", value_usd: 7500000 },
+        ],
+      },
+      {
+        address: "neutron1vesting",
+        label: "Vesting",
+        category: "locked",
+        balances: [
+          { date: "2025-09-12", amount: "1000", value_usd: 150 },
+          { date: "2025-09-11", amount: "2000", value_usd: 300 },
+        ],
+      },
+    ]);
+    expect(responseData.data.category_totals.locked).toEqual([
+      { date: "2025-09-12", amount: "1000", value_usd: 150 },
+      { date: "2025-09-11", amount: "2000", value_usd: 300 },
+    ]);
+    expect(responseData.data.category_totals.treasury).toBeUndefined();
+  });
+
+  it("should expose staked, vesting and per-contract series", async () => {
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          ...createMockData("2025-09-12"),
+          contract_balances: [
+            {
+              address: "neutron1staking",
+              label: "Staking",
+              category: "staked",
+              amount: "3000",
+            },
+          ],
+          staked_supply: "3000",
+          vesting_supply: "0",
+        },
+        // Stored before contract tracking
+        createMockData("2025-09-11"),
+      ],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "30" },
+    });
+
+    await handler(req, res);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.data.staked_supply).toEqual([
+      { date: "2025-09-12", amount: "3000", value_usd: 450 },
+    ]);
+    expect(responseData.data.vesting_supply).toEqual([
+      { date: "2025-09-12", amount: "0", value_usd: 0 },
+    ]);
+    expect(responseData.data.contract_balances).toEqual([
+      {
+        address: "neutron1staking",
+        label: "Staking",
+        category: "staked",
+        balances: [{ date: "2025-09-12", amount: "3000", value_usd: 450 }],
+      },
+    ]);
+  });
+
+  it("should expose MARS-side liquidity, volume and per-pool series", async () => {
+    const pool = {
+      pool_address: "neutron1pool",
+      pair: "MARS/USDC",
+      pool_type: "xyk",
+      total_liquidity_usd: 20000,
+      volume_24h_usd: 1500,
+      lp_fees_24h_usd: 4.5,
+    };
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          ...createMockData("2025-09-12"),
+          liquidity_pools: [{ ...pool, mars_amount: "60000" }],
+          mars_liquidity: "60000",
+          volume_usd: 1500,
+          lp_fees_usd: 4.5,
+        },
+        // Stored before the per-pool breakdown
+        createMockData("2025-09-11"),
+      ],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { days: "30" },
+    });
+
+    await handler(req, res);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.data.mars_liquidity).toEqual([
+      { date: "2025-09-12", amount: "60000", value_usd: 9000 },
+    ]);
+    expect(responseData.data.volume_usd).toEqual([
+      { date: "2025-09-12", value_usd: 1500 },
+    ]);
+    expect(responseData.data.lp_fees_usd).toEqual([
+      { date: "2025-09-12", value_usd: 4.5 },
+    ]);
+    expect(responseData.data.liquidity_pools).toEqual([
+      {
+        pool_address: "neutron1pool",
+        pair: "MARS/USDC",
+        pool_type: "xyk",
+        values: [
+          {
+            date: "2025-09-12",
+            mars_amount: "60000",
+            mars_value_usd: 9000,
+            total_liquidity_usd: 20000,
+            volume_24h_usd: 1500,
+            lp_fees_24h_usd: 4.5,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should include data quality when include=quality", async () => {
+    const provenance: DailyTokenomicsData["provenance"] = {
+      price_usd: {
+        source: "fallback",
+        fetched_at: "2025-09-11T23:00:00.000Z",
+        attempts: 3,
+        warnings: ["Carried forward from 2025-09-11"],
+      },
+    };
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          ...createMockData("2025-09-12"),
+          carried_forward: { fields: ["price_usd"], from_date: "2025-09-11" },
+          provenance,
+        },
+        createMockData("2025-09-11"),
+      ],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { include: "quality" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+
+    const responseData = JSON.parse(res._getData());
+    expect(responseData.quality).toEqual([
+      {
+        date: "2025-09-12",
+        estimated: true,
+        backfilled: false,
+        carried_forward: ["price_usd"],
+        provenance,
+      },
+      {
+        date: "2025-09-11",
+        estimated: false,
+        backfilled: false,
+        carried_forward: [],
+        provenance: {},
+      },
+    ]);
+  });
+
+  it("should omit data quality by default", async () => {
+    mockStorageService.getDataRange.mockResolvedValue({
+      success: true,
+      data: [createMockData("2025-09-12")],
+    });
+
+    const { req, res } = createMocks({
+      method: "GET",
+    });
+
+    await handler(req, res);
+
+    expect(JSON.parse(res._getData()).quality).toBeUndefined();
+  });
+
+  it("should return 400 for invalid include parameter", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { include: "quality,raw" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid include parameter",
+      message: "Include parameter must be a comma-separated list of: quality",
+    });
+  });
+
+  describe("interval=1h", () => {
+    const snapshots: HourlySnapshot[] = [
+      {
+        timestamp: "2025-09-12T11:00:00.000Z",
+        price_usd: 0.16,
+        on_chain_liquidity_usd: 100000.456,
+        carried_forward: ["on_chain_liquidity_usd"],
+      },
+      {
+        timestamp: "2025-09-12T10:00:00.000Z",
+        price_usd: 0.15,
+        on_chain_liquidity_usd: 99000,
+      },
+    ];
+
+    it("should return hourly price and liquidity for a range", async () => {
+      mockStorageService.getHourlySnapshots.mockResolvedValue({
+        success: true,
+        data: snapshots,
+      });
+      const { req, res } = createMocks({
+        method: "GET",
+        query: { interval: "1h", from: "2025-09-11", to: "2025-09-12" },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(200);
+      expect(mockStorageService.getHourlySnapshots).toHaveBeenCalledWith(
+        "2025-09-11",
+        "2025-09-12"
+      );
+      expect(res.getHeader("Cache-Control")).toBe(
+        "public, s-maxage=300, stale-while-revalidate=86400"
+      );
+
+      const responseData = JSON.parse(res._getData());
+      expect(responseData.data).toEqual({
+        price_usd: [
+          {
+            timestamp: "2025-09-12T11:00:00.000Z",
+            value_usd: 0.16,
+            estimated: false,
+          },
+          {
+            timestamp: "2025-09-12T10:00:00.000Z",
+            value_usd: 0.15,
+            estimated: false,
+          },
+        ],
+        on_chain_liquidity_usd: [
+          {
+            timestamp: "2025-09-12T11:00:00.000Z",
+            value_usd: 100000.46,
+            estimated: true,
+          },
+          {
+            timestamp: "2025-09-12T10:00:00.000Z",
+            value_usd: 99000,
+            estimated: false,
+          },
+        ],
+      });
+      expect(responseData.meta).toMatchObject({
+        interval: "1h",
+        range: { from: "2025-09-11", to: "2025-09-12" },
+        total_records: 2,
+        last_updated: "2025-09-12T11:00:00.000Z",
+      });
+    });
+
+    it("should default to the last three days", async () => {
+      mockStorageService.getHourlySnapshots.mockResolvedValue({
+        success: true,
+        data: snapshots,
+      });
+      const { req, res } = createMocks({
+        method: "GET",
+        query: { interval: "1h" },
+      });
+
+      await handler(req, res);
+
+      const today = new Date().toISOString().split("T")[0];
+      const [from, to] = mockStorageService.getHourlySnapshots.mock.calls[0];
+      expect(to).toBe(today);
+      expect((Date.parse(to) - Date.parse(from)) / 86400000).toBe(2);
+    });
+
+    it("should return 400 for ranges longer than seven days", async () => {
+      const { req, res } = createMocks({
+        method: "GET",
+        query: { interval: "1h", from: "2025-09-01", to: "2025-09-08" },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(400);
+      expect(JSON.parse(res._getData()).error).toBe("Invalid date range");
+      expect(mockStorageService.getHourlySnapshots).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 when combined with days", async () => {
+      const { req, res } = createMocks({
+        method: "GET",
+        query: { interval: "1h", days: "30" },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(400);
+      expect(JSON.parse(res._getData()).error).toBe("Conflicting parameters");
+    });
+
+    it("should return 400 for csv exports", async () => {
+      const { req, res } = createMocks({
+        method: "GET",
+        query: { interval: "1h", format: "csv" },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(400);
+      expect(JSON.parse(res._getData()).error).toBe("Invalid format parameter");
+    });
+
+    it("should return 404 when no snapshots are stored", async () => {
+      mockStorageService.getHourlySnapshots.mockResolvedValue({
+        success: true,
+        data: [],
+      });
+      const { req, res } = createMocks({
+        method: "GET",
+        query: { interval: "1h" },
+      });
+
+      await handler(req, res);
+
+      expect(res._getStatusCode()).toBe(404);
+    });
+  });
+
+  it("should return 400 for an invalid interval parameter", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { interval: "5m" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid interval parameter",
+      message: "Interval parameter must be one of: 1d, 1h",
+    });
+  });
+
   it("should return 404 when no data found", async () => {
     mockStorageService.getDataRange.mockResolvedValue({
       success: true,
@@ -228,7 +941,8 @@ describe("/api/tokenomics", () => {
         denom: "factory/neutron1ndu2wvkrxtane8se2tr48gv7nsm46y5gcqjhux/MARS",
         decimals: 6,
       },
-      last_updated: "2025-09-12",
+      // Records without updated_at count as updated at the start of their day
+      last_updated: "2025-09-12T00:00:00.000Z",
       total_records: 2,
       days_requested: 30,
     });
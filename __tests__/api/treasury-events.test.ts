@@ -0,0 +1,119 @@
+import { createMocks } from "node-mocks-http";
+import handler from "../../pages/api/treasury/events";
+import { storageService } from "../../src/services/storageService";
+import { addDays } from "../../src/utils/date";
+
+// Uses the in-memory storage backend configured in jest.setup.js
+describe("/api/treasury/events", () => {
+  const today = new Date().toISOString().split("T")[0];
+
+  const createEvent = (date: string): TreasuryOutflowEvent => ({
+    type: "treasury_outflow",
+    date,
+    previous_date: addDays(date, -1),
+    previous_amount: "150000000",
+    amount: "148000000",
+    delta: "-2000000",
+    delta_usd: -300000,
+    threshold: "1000000",
+    addresses: [
+      {
+        address: "neutron1treasury",
+        label: "Treasury",
+        previous_amount: "150000000",
+        amount: "148000000",
+        delta: "-2000000",
+      },
+    ],
+    detected_at: `${date}T10:00:00.000Z`,
+  });
+
+  beforeAll(async () => {
+    await storageService.storeTreasuryEvent(createEvent("2025-09-12"));
+    await storageService.storeTreasuryEvent(createEvent("2025-08-20"));
+    await storageService.storeTreasuryEvent(createEvent(addDays(today, -3)));
+  });
+
+  it("should return events in a range, newest first", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-08-01", to: "2025-09-30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    expect(res._getHeaders()["cache-control"]).toBe(
+      "public, s-maxage=300, stale-while-revalidate=86400"
+    );
+    expect(JSON.parse(res._getData())).toEqual({
+      data: [createEvent("2025-09-12"), createEvent("2025-08-20")],
+      meta: {
+        token: expect.objectContaining({ symbol: "MARS" }),
+        range: { from: "2025-08-01", to: "2025-09-30" },
+        threshold: "1000000",
+        total_events: 2,
+      },
+    });
+  });
+
+  it("should default to the last 90 days", async () => {
+    const { req, res } = createMocks({ method: "GET" });
+
+    await handler(req, res);
+
+    const body = JSON.parse(res._getData());
+    expect(body.data).toEqual([createEvent(addDays(today, -3))]);
+    expect(body.meta.range).toEqual({ from: addDays(today, -89), to: today });
+  });
+
+  it("should return 400 for an invalid from date", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-13-01" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toBe("Invalid from parameter");
+  });
+
+  it("should return 400 when from is after to", async () => {
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2025-09-12", to: "2025-09-01" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).error).toBe("Invalid date range");
+  });
+
+  it("should return 400 for ranges longer than 366 days", async () => {
+    const getTreasuryEvents = jest.spyOn(storageService, "getTreasuryEvents");
+    const { req, res } = createMocks({
+      method: "GET",
+      query: { from: "2000-01-01", to: "2025-09-30" },
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData())).toEqual({
+      error: "Invalid date range",
+      message: "Ranges are limited to 366 days",
+    });
+    expect(getTreasuryEvents).not.toHaveBeenCalled();
+    getTreasuryEvents.mockRestore();
+  });
+
+  it("should return 405 for non-GET requests", async () => {
+    const { req, res } = createMocks({ method: "POST" });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(405);
+  });
+});
@@ -4,6 +4,7 @@
 // Mock environment variables
 process.env.BLOB_READ_WRITE_TOKEN = 'test_token';
 process.env.NODE_ENV = 'test';
+process.env.STORAGE_BACKEND = 'memory';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { backfillService } from "../../../src/services/backfillService";
+import { hasBearerToken } from "../../../src/utils/auth";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 31;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BackfillResult | { error: string; message: string }>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET and POST requests are supported",
+    });
+  }
+
+  if (!process.env.ADMIN_API_TOKEN) {
+    return res.status(503).json({
+      error: "Backfill disabled",
+      message: "ADMIN_API_TOKEN is not configured",
+    });
+  }
+
+  if (!hasBearerToken(req, process.env.ADMIN_API_TOKEN)) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "A valid bearer token is required",
+    });
+  }
+
+  const { limit } = req.query;
+  const limitParam =
+    limit === undefined ? DEFAULT_LIMIT : parseInt(limit as string, 10);
+
+  if (isNaN(limitParam) || limitParam < 1 || limitParam > MAX_LIMIT) {
+    return res.status(400).json({
+      error: "Invalid limit parameter",
+      message: `Limit parameter must be between 1 and ${MAX_LIMIT}`,
+    });
+  }
+
+  // GET only reports the gaps, POST reconstructs them
+  const result = await backfillService.backfill({
+    limit: limitParam,
+    dryRun: req.method === "GET",
+  });
+
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Backfill failed",
+      message: result.error || "Unknown error occurred",
+    });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(200).json(result.data!);
+}
+
+// Export config for Vercel to handle this as a serverless function
+export const config = {
+  maxDuration: 300, // 5 minutes
+};
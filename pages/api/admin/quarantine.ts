@@ -0,0 +1,173 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { QUARANTINE_CONFIG } from "../../../src/config/constants";
+import { storageService } from "../../../src/services/storageService";
+import { hasBearerToken } from "../../../src/utils/auth";
+import {
+  addDays,
+  isValidDateString,
+  toDateString,
+} from "../../../src/utils/date";
+
+type ErrorResponse = { error: string; message: string };
+
+async function listEntries(
+  req: NextApiRequest,
+  res: NextApiResponse<QuarantineListResponse | ErrorResponse>
+) {
+  const { from, to } = req.query;
+
+  // Defaults to the last DEFAULT_DAYS days up to today
+  const toParam = to === undefined ? toDateString(new Date()) : to;
+  if (typeof toParam !== "string" || !isValidDateString(toParam)) {
+    return res.status(400).json({
+      error: "Invalid to parameter",
+      message: "to must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  const fromParam =
+    from === undefined
+      ? addDays(toParam, 1 - QUARANTINE_CONFIG.DEFAULT_DAYS)
+      : from;
+  if (typeof fromParam !== "string" || !isValidDateString(fromParam)) {
+    return res.status(400).json({
+      error: "Invalid from parameter",
+      message: "from must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  if (fromParam > toParam) {
+    return res.status(400).json({
+      error: "Invalid date range",
+      message: "from must be on or before to",
+    });
+  }
+
+  const result = await storageService.getQuarantinedRecords(fromParam, toParam);
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Data fetch failed",
+      message: result.error || "Unknown error occurred",
+    });
+  }
+
+  // Payloads and upstream responses are served one entry at a time
+  const entries = result.data!.map(
+    (quarantined): QuarantineListResponse["data"][number] => ({
+      date: quarantined.date,
+      entry: quarantined.entry,
+      status: quarantined.status,
+      quarantined_at: quarantined.quarantined_at,
+      approved_at: quarantined.approved_at,
+      errors: quarantined.errors,
+      warnings: quarantined.warnings,
+      findings: quarantined.findings,
+      invalid_fields: quarantined.invalid_fields,
+    })
+  );
+
+  return res.status(200).json({
+    data: entries,
+    meta: {
+      range: { from: fromParam, to: toParam },
+      total_entries: entries.length,
+    },
+  });
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    QuarantineListResponse | QuarantineEntryResponse | ErrorResponse
+  >
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET and POST requests are supported",
+    });
+  }
+
+  if (!process.env.ADMIN_API_TOKEN) {
+    return res.status(503).json({
+      error: "Quarantine disabled",
+      message: "ADMIN_API_TOKEN is not configured",
+    });
+  }
+
+  if (!hasBearerToken(req, process.env.ADMIN_API_TOKEN)) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "A valid bearer token is required",
+    });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+
+  const { date, entry } = req.query;
+
+  // GET without an entry lists the quarantine
+  if (req.method === "GET" && date === undefined && entry === undefined) {
+    return listEntries(req, res);
+  }
+
+  if (typeof date !== "string" || !isValidDateString(date)) {
+    return res.status(400).json({
+      error: "Invalid date parameter",
+      message: "date must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  if (typeof entry !== "string" || !/^[1-9]\d*$/.test(entry)) {
+    return res.status(400).json({
+      error: "Invalid entry parameter",
+      message: "entry must be a positive integer",
+    });
+  }
+
+  const result = await storageService.getQuarantinedRecord(
+    date,
+    parseInt(entry, 10)
+  );
+
+  if (result.notFound) {
+    return res.status(404).json({
+      error: "No data found",
+      message: `No quarantine entry ${entry} available for ${date}`,
+    });
+  }
+
+  if (!result.success) {
+    return res.status(500).json({
+      error: "Data fetch failed",
+      message: result.error || "Unknown error occurred",
+    });
+  }
+
+  if (req.method === "GET") {
+    return res.status(200).json({ data: result.data! });
+  }
+
+  // POST approves the entry, replacing the stored record for its day
+  if (result.data!.status === "approved") {
+    return res.status(409).json({
+      error: "Already approved",
+      message: `Quarantine entry ${entry} for ${date} was approved at ${
+        result.data!.approved_at
+      }`,
+    });
+  }
+
+  const approveResult = await storageService.approveQuarantinedRecord(
+    date,
+    parseInt(entry, 10)
+  );
+  if (!approveResult.success) {
+    return res.status(500).json({
+      error: "Approval failed",
+      message: approveResult.error || "Unknown error occurred",
+    });
+  }
+
+  return res.status(200).json({ data: approveResult.data! });
+}
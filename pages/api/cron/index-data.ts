@@ -2,37 +2,99 @@ import { NextApiRequest, NextApiResponse } from "next";
 import { dataFetcher } from "../../../src/services/dataFetcher";
 import { storageService } from "../../../src/services/storageService";
 import { validationService } from "../../../src/services/validationService";
+import { hasBearerToken } from "../../../src/utils/auth";
+import {
+  TOKENOMICS_METRICS,
+  toHourlySnapshot,
+} from "../../../src/utils/tokenomics";
 
 interface IndexingResult {
   success: boolean;
   date: string;
   message: string;
   usedFallback?: boolean;
+  carriedForward?: DailyTokenomicsData["carried_forward"];
   warnings?: string[];
   errors?: string[];
   executionTime?: number;
 }
 
+// The daily record is overwritten every run, so each run also keeps its
+// values as an hourly snapshot. A failure here does not fail the run.
+async function storeHourlySnapshot(
+  data: DailyTokenomicsData
+): Promise<string[]> {
+  const result = await storageService.storeHourlySnapshot(
+    toHourlySnapshot(data)
+  );
+  if (!result.success) {
+    console.warn("Failed to store hourly snapshot:", result.error);
+    return [`Hourly snapshot not stored: ${result.error}`];
+  }
+  return [];
+}
+
+// Events are stored only with the record they were detected in. A failure
+// here does not fail the run.
+async function storeTreasuryEvents(
+  events: TreasuryOutflowEvent[]
+): Promise<string[]> {
+  const results = await Promise.all(
+    events.map((event) => storageService.storeTreasuryEvent(event))
+  );
+  return results
+    .filter((result) => !result.success)
+    .map((result) => {
+      console.warn("Failed to store treasury event:", result.error);
+      return `Treasury event not stored: ${result.error}`;
+    });
+}
+
+// Rejected records are kept for review through /api/admin/quarantine. A
+// failure here does not fail the run.
+async function quarantineRecord(
+  data: DailyTokenomicsData,
+  validation: DataValidationResult,
+  responses: UpstreamResponse[]
+): Promise<string[]> {
+  const result = await storageService.storeQuarantinedRecord({
+    date: data.date,
+    quarantined_at: new Date().toISOString(),
+    data,
+    responses,
+    errors: validation.errors,
+    warnings: validation.warnings,
+    findings: validation.findings,
+    invalid_fields: validation.invalidFields,
+  });
+  if (!result.success) {
+    console.warn("Failed to quarantine rejected data:", result.error);
+    return [`Rejected data not quarantined: ${result.error}`];
+  }
+  return [];
+}
+
+// The day's approved quarantine entry, if an admin approved one. A failed
+// lookup is treated as none.
+async function findApprovedEntry(
+  date: string
+): Promise<QuarantinedRecord | undefined> {
+  const result = await storageService.getQuarantinedRecords(date, date);
+  if (!result.success) {
+    console.warn("Failed to read quarantine:", result.error);
+    return undefined;
+  }
+  return result.data!.find((quarantined) => quarantined.status === "approved");
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<IndexingResult>
 ) {
-  // Set CORS headers to allow cross-origin requests
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-
-  // Handle preflight requests
-  if (req.method === "OPTIONS") {
-    return res.status(200).end();
-  }
-
   const startTime = Date.now();
   const today = new Date().toISOString().split("T")[0];
 
-  console.log(`Starting daily data indexing for ${today}`);
-
-  // Verify this is a cron job request (optional security check)
+  // Only server-side callers are expected, so no CORS headers are sent
   if (req.method !== "POST" && req.method !== "GET") {
     return res.status(405).json({
       success: false,
@@ -41,6 +103,27 @@ export default async function handler(
     });
   }
 
+  // Vercel cron sends CRON_SECRET as a bearer token; CRON_AUTH_TOKEN lets
+  // other schedulers use their own secret
+  const secrets = [process.env.CRON_SECRET, process.env.CRON_AUTH_TOKEN];
+  if (secrets.every((secret) => !secret)) {
+    return res.status(503).json({
+      success: false,
+      date: today,
+      message: "Indexing disabled: CRON_SECRET is not configured",
+    });
+  }
+
+  if (!secrets.some((secret) => hasBearerToken(req, secret))) {
+    return res.status(401).json({
+      success: false,
+      date: today,
+      message: "Unauthorized",
+    });
+  }
+
+  console.log(`Starting daily data indexing for ${today}`);
+
   // Check if we already have data for today
   let dataExists = false;
   try {
@@ -65,74 +148,126 @@ export default async function handler(
     // Fetch all data
     console.log("Fetching tokenomics data...");
     const fetchResult = await dataFetcher.fetchAllData();
+    const fallbackWarnings: string[] = [];
+    let currentData: DailyTokenomicsData;
 
-    if (!fetchResult.success) {
-      console.error("Failed to fetch data:", fetchResult.error);
-      console.error("Full fetch result:", JSON.stringify(fetchResult, null, 2));
+    if (fetchResult.failedMetrics.length > 0) {
+      const fetchErrors = fetchResult.failedMetrics.map(
+        (metric) => `${metric}: ${fetchResult.metrics[metric].error}`
+      );
+      console.error("Failed to fetch some metrics:", fetchErrors);
 
-      // Try to create fallback data
+      // Carry forward only the metrics that failed
       console.log("Attempting to create fallback data...");
       const fallbackResult = await validationService.createFallbackData(
         today,
-        {}
+        fetchResult.data,
+        fetchResult.failedMetrics
       );
 
       if (!fallbackResult.success) {
         return res.status(500).json({
           success: false,
           date: today,
-          message: `Data fetch failed and no fallback available: ${fetchResult.error}`,
-          errors: [fetchResult.error || "Unknown fetch error"],
+          message: `Data fetch failed and no fallback available: ${fetchErrors.join(
+            ", "
+          )}`,
+          errors: fetchErrors,
           executionTime: Date.now() - startTime,
         });
       }
 
-      // Store fallback data
-      const storeResult = await storageService.storeData(fallbackResult.data!);
-      if (!storeResult.success) {
-        return res.status(500).json({
-          success: false,
-          date: today,
-          message: `Failed to store fallback data: ${storeResult.error}`,
-          errors: [storeResult.error || "Unknown storage error"],
-          executionTime: Date.now() - startTime,
-        });
-      }
+      currentData = fallbackResult.data!;
+      fallbackWarnings.push(
+        `Used previous day data for: ${fetchResult.failedMetrics.join(", ")}`
+      );
+    } else {
+      currentData = fetchResult.data as DailyTokenomicsData;
+    }
 
-      return res.status(200).json({
-        success: true,
+    console.log("Data fetched, validating...");
+
+    // Validate the data. A storage error is not the same as no previous
+    // day, so the day-over-day checks are not skipped because of one
+    let previousData: DailyTokenomicsData | null;
+    try {
+      previousData = await validationService.getValidationContext(today);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown storage error";
+      console.error(
+        "Could not fetch previous data for validation:",
+        errorMessage
+      );
+      return res.status(503).json({
+        success: false,
         date: today,
-        message: "Data indexed using fallback values",
-        usedFallback: true,
-        warnings: ["Used previous day data due to fetch failures"],
+        message: `Validation unavailable: ${errorMessage}`,
+        errors: [errorMessage],
         executionTime: Date.now() - startTime,
       });
     }
 
-    const currentData = fetchResult.data!;
-    console.log("Data fetched successfully, validating...");
-
-    // Validate the data
-    let previousData = null;
+    // Recent days for the rolling-window checks, skipped when unavailable
+    let history: DailyTokenomicsData[] = [];
     try {
-      previousData = await validationService.getValidationContext(today);
+      history = await validationService.getValidationHistory(today);
     } catch (error) {
-      console.warn("Could not fetch previous data for validation:", error);
-      // Continue with previousData = null
+      console.warn("Could not fetch recent data for validation:", error);
     }
 
     const validationResult = await validationService.validateData(
       currentData,
-      previousData || undefined
+      previousData || undefined,
+      history
+    );
+
+    // Persist validation messages with the metrics they concern
+    currentData = validationService.annotateProvenance(
+      currentData,
+      validationResult
     );
 
     if (!validationResult.isValid) {
       console.error("Data validation failed:", validationResult.errors);
+      const quarantineWarnings = await quarantineRecord(
+        currentData,
+        validationResult,
+        fetchResult.responses
+      );
+
+      // Once an admin has approved a record for the day, later rejections
+      // keep the stored record instead of falling back over it. The hour is
+      // still snapshotted from the kept record; the rejected data's treasury
+      // events are not stored
+      const approved = await findApprovedEntry(today);
+      if (approved) {
+        const snapshotWarnings = await storeHourlySnapshot(approved.data);
+
+        return res.status(200).json({
+          success: true,
+          date: today,
+          message: `Kept the record approved from quarantine entry ${approved.entry} after validation failures`,
+          warnings: [
+            ...validationResult.warnings,
+            ...quarantineWarnings,
+            ...snapshotWarnings,
+          ],
+          errors: validationResult.errors,
+          executionTime: Date.now() - startTime,
+        });
+      }
 
-      // Try to create fallback data with partial current data
+      // Replace only the metrics implicated by the errors, or everything
+      // when the errors could not be attributed to a metric
+      const fieldsToReplace =
+        validationResult.invalidFields.length > 0
+          ? validationResult.invalidFields
+          : TOKENOMICS_METRICS;
       const fallbackResult = await validationService.createFallbackData(
         today,
-        currentData
+        currentData,
+        fieldsToReplace
       );
 
       if (!fallbackResult.success) {
@@ -140,6 +275,7 @@ export default async function handler(
           success: false,
           date: today,
           message: "Data validation failed and no fallback available",
+          warnings: quarantineWarnings,
           errors: validationResult.errors,
           executionTime: Date.now() - startTime,
         });
@@ -160,12 +296,25 @@ export default async function handler(
         });
       }
 
+      const snapshotWarnings = await storeHourlySnapshot(fallbackResult.data!);
+      // Balances replaced by the fallback are not the ones the events saw
+      const eventWarnings = fieldsToReplace.includes("address_balances")
+        ? []
+        : await storeTreasuryEvents(validationResult.events);
+
       return res.status(200).json({
         success: true,
         date: today,
         message: "Data indexed using fallback due to validation failures",
         usedFallback: true,
-        warnings: validationResult.warnings,
+        carriedForward: fallbackResult.data!.carried_forward,
+        warnings: [
+          ...fallbackWarnings,
+          ...validationResult.warnings,
+          ...quarantineWarnings,
+          ...snapshotWarnings,
+          ...eventWarnings,
+        ],
         errors: validationResult.errors,
         executionTime: Date.now() - startTime,
       });
@@ -190,18 +339,34 @@ export default async function handler(
       `Data indexing completed successfully for ${today} (hour: ${currentHour})`
     );
 
+    const snapshotWarnings = await storeHourlySnapshot(currentData);
+    const eventWarnings = await storeTreasuryEvents(validationResult.events);
+
     const response: IndexingResult = {
       success: true,
       date: today,
-      message: dataExists
+      message: currentData.carried_forward
+        ? "Data indexed using fallback values"
+        : dataExists
         ? `Data updated successfully (hour: ${currentHour})`
         : `Data indexed successfully (hour: ${currentHour})`,
       executionTime: Date.now() - startTime,
     };
 
+    if (currentData.carried_forward) {
+      response.usedFallback = true;
+      response.carriedForward = currentData.carried_forward;
+    }
+
     // Add warnings if any
-    if (validationResult.warnings.length > 0) {
-      response.warnings = validationResult.warnings;
+    const warnings = [
+      ...fallbackWarnings,
+      ...validationResult.warnings,
+      ...snapshotWarnings,
+      ...eventWarnings,
+    ];
+    if (warnings.length > 0) {
+      response.warnings = warnings;
     }
 
     return res.status(200).json(response);
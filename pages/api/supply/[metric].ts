@@ -0,0 +1,100 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { storageService } from "../../../src/services/storageService";
+
+const SUPPLY_FIELDS: Record<
+  SupplyMetric,
+  "circulating_supply" | "total_supply"
+> = {
+  circulating: "circulating_supply",
+  total: "total_supply",
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    SupplyResponse | { error: string; message: string } | string
+  >
+) {
+  // Set CORS headers to allow cross-origin requests
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  // Handle preflight requests
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET requests are supported",
+    });
+  }
+
+  const { metric, format } = req.query;
+
+  if (metric !== "circulating" && metric !== "total") {
+    return res.status(404).json({
+      error: "Unknown supply metric",
+      message: "Supply metric must be one of: circulating, total",
+    });
+  }
+
+  if (format !== undefined && format !== "text" && format !== "json") {
+    return res.status(400).json({
+      error: "Invalid format parameter",
+      message: "Format parameter must be one of: text, json",
+    });
+  }
+
+  try {
+    const latestResult = await storageService.getLatestData();
+
+    if (!latestResult.success) {
+      console.error("Failed to fetch latest data:", latestResult.error);
+      return res.status(500).json({
+        error: "Data fetch failed",
+        message: latestResult.error || "Unknown error occurred",
+      });
+    }
+
+    const latest = latestResult.data!;
+    const value = latest[SUPPLY_FIELDS[metric]];
+
+    if (value === undefined) {
+      return res.status(404).json({
+        error: "No data found",
+        message: `No ${metric} supply available for ${latest.date}`,
+      });
+    }
+
+    // Aggregators poll frequently, so keep these fresher than the history endpoint
+    res.setHeader(
+      "Cache-Control",
+      "public, s-maxage=300, stale-while-revalidate=3600"
+    );
+
+    if (format === "json") {
+      res.setHeader("Content-Type", "application/json");
+      return res.status(200).json({
+        metric,
+        value,
+        date: latest.date,
+        last_updated: latest.updated_at || latest.date + "T00:00:00.000Z",
+      });
+    }
+
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    return res.status(200).send(value);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    console.error("Unexpected error in supply API:", errorMessage);
+
+    return res.status(500).json({
+      error: "Internal server error",
+      message: errorMessage,
+    });
+  }
+}
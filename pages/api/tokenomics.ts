@@ -1,10 +1,154 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { MARS_TOKEN } from "../../src/config/constants";
+import { HOURLY_CONFIG, MARS_TOKEN } from "../../src/config/constants";
+import { aggregationService } from "../../src/services/aggregationService";
+import { exportService } from "../../src/services/exportService";
 import { storageService } from "../../src/services/storageService";
+import {
+  addDays,
+  daysBetween,
+  isValidDateString,
+  toDateString,
+} from "../../src/utils/date";
+import { amountToUsd } from "../../src/utils/decimal";
+
+function toUsd(amount: string, record: AggregatedTokenomicsData): number {
+  // Balances are end-of-period values, so value them at the closing price
+  return amountToUsd(amount, record.price_ohlc?.close ?? record.price_usd);
+}
+
+// One series per wallet or contract, in the order they were first seen
+function buildBalanceSeries<
+  T extends { address: string; amount: string; amount_raw?: string }
+>(
+  series: AggregatedTokenomicsData[],
+  getBalances: (record: AggregatedTokenomicsData) => T[] | undefined
+): Array<Omit<T, "amount" | "amount_raw"> & { balances: BalancePoint[] }> {
+  const byAddress = new Map<
+    string,
+    Omit<T, "amount" | "amount_raw"> & { balances: BalancePoint[] }
+  >();
+
+  for (const record of series) {
+    for (const { amount, amount_raw, ...holder } of getBalances(record) ?? []) {
+      let entry = byAddress.get(holder.address);
+      if (!entry) {
+        // Series are newest first, so the first label seen is the current one
+        entry = { ...holder, balances: [] };
+        byAddress.set(holder.address, entry);
+      }
+      entry.balances.push({
+        date: record.date,
+        amount,
+        // Missing on records stored before raw amounts were kept
+        ...(amount_raw !== undefined && { amount_raw }),
+        value_usd: toUsd(amount, record),
+      });
+    }
+  }
+
+  return Array.from(byAddress.values());
+}
+
+// One series per pool, deepest pool of the latest record first
+function buildPoolSeries(
+  series: AggregatedTokenomicsData[]
+): TokenomicsResponse["data"]["liquidity_pools"] {
+  const byAddress = new Map<
+    string,
+    TokenomicsResponse["data"]["liquidity_pools"][number]
+  >();
+
+  for (const record of series) {
+    for (const pool of record.liquidity_pools ?? []) {
+      const { pool_address, pair, pool_type, ...values } = pool;
+      let entry = byAddress.get(pool_address);
+      if (!entry) {
+        entry = { pool_address, pair, pool_type, values: [] };
+        byAddress.set(pool_address, entry);
+      }
+      entry.values.push({
+        date: record.date,
+        ...values,
+        mars_value_usd: toUsd(values.mars_amount, record),
+      });
+    }
+  }
+
+  return Array.from(byAddress.values());
+}
+
+function buildCategorySeries(
+  series: AggregatedTokenomicsData[]
+): TokenomicsResponse["data"]["category_totals"] {
+  const totals: TokenomicsResponse["data"]["category_totals"] = {};
+
+  for (const record of series) {
+    const categoryTotals = record.category_totals ?? {};
+    for (const category of Object.keys(categoryTotals) as AddressCategory[]) {
+      const amount = categoryTotals[category]!;
+      (totals[category] ??= []).push({
+        date: record.date,
+        amount,
+        value_usd: toUsd(amount, record),
+      });
+    }
+  }
+
+  return totals;
+}
+
+function buildQuality(data: DailyTokenomicsData[]): DataQuality[] {
+  return data.map((record) => {
+    const carriedForward = record.carried_forward?.fields ?? [];
+    return {
+      date: record.date,
+      estimated: carriedForward.length > 0,
+      backfilled: record.backfilled !== undefined,
+      carried_forward: carriedForward,
+      provenance: record.provenance ?? {},
+    };
+  });
+}
+
+function buildHourlyResponse(
+  snapshots: HourlySnapshot[],
+  range: DateRange
+): HourlyTokenomicsResponse {
+  const isEstimated = (snapshot: HourlySnapshot, metric: TokenomicsMetric) =>
+    snapshot.carried_forward?.includes(metric) ?? false;
+
+  return {
+    data: {
+      price_usd: snapshots.map((s) => ({
+        timestamp: s.timestamp,
+        value_usd: s.price_usd,
+        estimated: isEstimated(s, "price_usd"),
+      })),
+      on_chain_liquidity_usd: snapshots.map((s) => ({
+        timestamp: s.timestamp,
+        value_usd: Math.round(s.on_chain_liquidity_usd * 100) / 100,
+        estimated: isEstimated(s, "on_chain_liquidity_usd"),
+      })),
+    },
+    meta: {
+      token: MARS_TOKEN,
+      interval: "1h",
+      range,
+      total_records: snapshots.length,
+      // Snapshots are newest first
+      last_updated: snapshots[0].timestamp,
+    },
+  };
+}
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<TokenomicsResponse | { error: string; message: string }>
+  res: NextApiResponse<
+    | TokenomicsResponse
+    | HourlyTokenomicsResponse
+    | { error: string; message: string }
+    | string
+  >
 ) {
   // Set CORS headers to allow cross-origin requests
   res.setHeader("Access-Control-Allow-Origin", "*");
@@ -24,24 +168,178 @@ export default async function handler(
   }
 
   try {
-    const { days } = req.query;
+    const { days, from, to, granularity, format, include, interval } =
+      req.query;
+    const isRangeQuery = from !== undefined || to !== undefined;
+
+    if (isRangeQuery && days !== undefined) {
+      return res.status(400).json({
+        error: "Conflicting parameters",
+        message: "Use either days or from/to, not both",
+      });
+    }
+
     const daysParam = (days as DaysParam) || "30";
 
     // Validate days parameter
-    if (!["30", "90", "180", "all"].includes(daysParam)) {
+    if (!isRangeQuery && !["30", "90", "180", "all"].includes(daysParam)) {
       return res.status(400).json({
         error: "Invalid days parameter",
         message: "Days parameter must be one of: 30, 90, 180, all",
       });
     }
 
-    console.log(`Fetching tokenomics data for ${daysParam} days`);
+    const granularityParam = (granularity as Granularity) || "day";
+
+    if (!["day", "week", "month"].includes(granularityParam)) {
+      return res.status(400).json({
+        error: "Invalid granularity parameter",
+        message: "Granularity parameter must be one of: day, week, month",
+      });
+    }
+
+    const exportFormat = exportService.resolveFormat(
+      format,
+      req.headers.accept
+    );
 
-    // Fetch data based on days parameter
+    if (!exportFormat) {
+      return res.status(400).json({
+        error: "Invalid format parameter",
+        message: "Format parameter must be one of: json, csv, ndjson",
+      });
+    }
+
+    const includeParam = typeof include === "string" ? include : "";
+    const includes = includeParam
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0);
+
+    if (
+      (include !== undefined && typeof include !== "string") ||
+      includes.some((value) => value !== "quality")
+    ) {
+      return res.status(400).json({
+        error: "Invalid include parameter",
+        message: "Include parameter must be a comma-separated list of: quality",
+      });
+    }
+
+    const intervalParam = (interval as Interval) || "1d";
+
+    if (!["1d", "1h"].includes(intervalParam)) {
+      return res.status(400).json({
+        error: "Invalid interval parameter",
+        message: "Interval parameter must be one of: 1d, 1h",
+      });
+    }
+
+    // Hourly snapshots only carry price and liquidity for short ranges
+    if (intervalParam === "1h") {
+      if (days !== undefined || granularityParam !== "day" || include) {
+        return res.status(400).json({
+          error: "Conflicting parameters",
+          message:
+            "interval=1h cannot be combined with days, granularity or include",
+        });
+      }
+
+      if (exportFormat !== "json") {
+        return res.status(400).json({
+          error: "Invalid format parameter",
+          message: "interval=1h is only available as json",
+        });
+      }
+    }
+
+    let range: DateRange | undefined;
+    if (isRangeQuery) {
+      if (typeof from !== "string" || !isValidDateString(from)) {
+        return res.status(400).json({
+          error: "Invalid from parameter",
+          message: "from must be a valid ISO date (YYYY-MM-DD)",
+        });
+      }
+
+      // Open-ended ranges run up to today
+      const toParam = to === undefined ? toDateString(new Date()) : to;
+      if (typeof toParam !== "string" || !isValidDateString(toParam)) {
+        return res.status(400).json({
+          error: "Invalid to parameter",
+          message: "to must be a valid ISO date (YYYY-MM-DD)",
+        });
+      }
+
+      if (from > toParam) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          message: "from must be on or before to",
+        });
+      }
+
+      range = { from, to: toParam };
+    }
+
+    if (intervalParam === "1h") {
+      const today = toDateString(new Date());
+      const hourlyRange = range ?? {
+        from: addDays(today, 1 - HOURLY_CONFIG.DEFAULT_DAYS),
+        to: today,
+      };
+
+      if (
+        daysBetween(hourlyRange.from, hourlyRange.to) >= HOURLY_CONFIG.MAX_DAYS
+      ) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          message: `interval=1h ranges are limited to ${HOURLY_CONFIG.MAX_DAYS} days`,
+        });
+      }
+
+      const snapshotsResult = await storageService.getHourlySnapshots(
+        hourlyRange.from,
+        hourlyRange.to
+      );
+
+      if (!snapshotsResult.success) {
+        console.error("Failed to fetch hourly data:", snapshotsResult.error);
+        return res.status(500).json({
+          error: "Data fetch failed",
+          message: snapshotsResult.error || "Unknown error occurred",
+        });
+      }
+
+      if (snapshotsResult.data!.length === 0) {
+        return res.status(404).json({
+          error: "No data found",
+          message: "No hourly snapshots available for the requested range",
+        });
+      }
+
+      // Snapshots change every hour, so cache them for less time
+      res.setHeader(
+        "Cache-Control",
+        "public, s-maxage=300, stale-while-revalidate=86400"
+      );
+      return res
+        .status(200)
+        .json(buildHourlyResponse(snapshotsResult.data!, hourlyRange));
+    }
+
+    // Fetch data based on the requested range
     let dataResult;
-    if (daysParam === "all") {
+    if (range) {
+      console.log(`Fetching tokenomics data from ${range.from} to ${range.to}`);
+      dataResult = await storageService.getDataByDateRange(
+        range.from,
+        range.to
+      );
+    } else if (daysParam === "all") {
+      console.log(`Fetching tokenomics data for ${daysParam} days`);
       dataResult = await storageService.getAllData();
     } else {
+      console.log(`Fetching tokenomics data for ${daysParam} days`);
       const numDays = parseInt(daysParam, 10);
       dataResult = await storageService.getDataRange(numDays);
     }
@@ -71,44 +369,150 @@ export default async function handler(
       return currentTimestamp > latestTimestamp ? currentTimestamp : latest;
     }, "" as string);
 
+    // Roll daily records up into week/month buckets when requested
+    const aggregation = aggregationService.aggregate(data, granularityParam);
+    const series = aggregation.data;
+
     // Transform data to the required format
     const response: TokenomicsResponse = {
       data: {
-        burned_supply: data.map((d) => ({
+        // Records stored before supply tracking have no total/circulating values
+        total_supply: series
+          .filter((d) => d.total_supply !== undefined)
+          .map((d) => ({
+            date: d.date,
+            amount: d.total_supply!,
+            value_usd: Math.round((d.total_supply_usd ?? 0) * 100) / 100,
+          })),
+        circulating_supply: series
+          .filter((d) => d.circulating_supply !== undefined)
+          .map((d) => ({
+            date: d.date,
+            amount: d.circulating_supply!,
+            value_usd: Math.round((d.circulating_supply_usd ?? 0) * 100) / 100,
+          })),
+        burned_supply: series.map((d) => ({
           date: d.date,
           amount: d.burned_supply,
           value_usd: Math.round(d.burned_supply_usd * 100) / 100,
         })),
-        treasury_supply: data.map((d) => ({
+        treasury_supply: series.map((d) => ({
           date: d.date,
           amount: d.treasury_supply,
           value_usd: Math.round(d.treasury_supply_usd * 100) / 100,
         })),
-        price_usd: data.map((d) => ({
+        address_balances: buildBalanceSeries(
+          series,
+          (record) => record.address_balances
+        ),
+        category_totals: buildCategorySeries(series),
+        // Records stored before contract tracking have no staked/vesting values
+        staked_supply: series
+          .filter((d) => d.staked_supply !== undefined)
+          .map((d) => ({
+            date: d.date,
+            amount: d.staked_supply!,
+            value_usd: toUsd(d.staked_supply!, d),
+          })),
+        vesting_supply: series
+          .filter((d) => d.vesting_supply !== undefined)
+          .map((d) => ({
+            date: d.date,
+            amount: d.vesting_supply!,
+            value_usd: toUsd(d.vesting_supply!, d),
+          })),
+        contract_balances: buildBalanceSeries(
+          series,
+          (record) => record.contract_balances
+        ),
+        price_usd: series.map((d) => ({
           date: d.date,
           value_usd: d.price_usd,
+          ...d.price_ohlc,
         })),
-        on_chain_liquidity_usd: data.map((d) => ({
+        on_chain_liquidity_usd: series.map((d) => ({
           date: d.date,
           value_usd: Math.round(d.on_chain_liquidity_usd * 100) / 100,
+          ...(d.liquidity_range && {
+            min_usd: Math.round(d.liquidity_range.min * 100) / 100,
+            max_usd: Math.round(d.liquidity_range.max * 100) / 100,
+          }),
         })),
+        // Records stored before the per-pool breakdown have no MARS-side values
+        mars_liquidity: series
+          .filter((d) => d.mars_liquidity !== undefined)
+          .map((d) => ({
+            date: d.date,
+            amount: d.mars_liquidity!,
+            value_usd: toUsd(d.mars_liquidity!, d),
+          })),
+        liquidity_pools: buildPoolSeries(series),
+        // Daily totals, summed over each bucket when aggregated
+        volume_usd: series
+          .filter((d) => d.volume_usd !== undefined)
+          .map((d) => ({
+            date: d.date,
+            value_usd: Math.round(d.volume_usd! * 100) / 100,
+          })),
+        lp_fees_usd: series
+          .filter((d) => d.lp_fees_usd !== undefined)
+          .map((d) => ({
+            date: d.date,
+            value_usd: Math.round(d.lp_fees_usd! * 100) / 100,
+          })),
       },
       meta: {
         token: MARS_TOKEN,
         last_updated: mostRecentUpdate || new Date().toISOString(),
         total_records: data.length,
-        days_requested:
-          daysParam === "all" ? data.length : parseInt(daysParam, 10),
+        days_requested: range
+          ? daysBetween(range.from, range.to) + 1
+          : daysParam === "all"
+          ? data.length
+          : parseInt(daysParam, 10),
       },
     };
 
+    if (range) {
+      response.meta.range = range;
+    }
+
+    if (granularityParam !== "day") {
+      response.meta.granularity = granularityParam;
+      response.meta.buckets = aggregation.buckets;
+    }
+
+    // Quality is reported per stored day, also when the series is aggregated
+    if (includes.includes("quality")) {
+      response.quality = buildQuality(data);
+    }
+
     // Set cache headers for better performance
-    const cacheMaxAge = daysParam === "all" ? 3600 : 1800; // 1 hour for all, 30 min for others
+    const cacheMaxAge = !range && daysParam === "all" ? 3600 : 1800; // 1 hour for all, 30 min for others
     res.setHeader(
       "Cache-Control",
       `public, s-maxage=${cacheMaxAge}, stale-while-revalidate=86400`
     );
-    res.setHeader("Content-Type", "application/json");
+    res.setHeader("Vary", "Accept");
+    res.setHeader("Content-Type", exportService.getContentType(exportFormat));
+
+    if (exportFormat !== "json") {
+      const label = range
+        ? `${range.from}_${range.to}`
+        : daysParam === "all"
+        ? "all"
+        : `${daysParam}d`;
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="mars-tokenomics-${label}.${exportFormat}"`
+      );
+
+      const body =
+        exportFormat === "csv"
+          ? exportService.toCsv(series)
+          : exportService.toNdjson(series);
+      return res.status(200).send(body);
+    }
 
     return res.status(200).json(response);
   } catch (error) {
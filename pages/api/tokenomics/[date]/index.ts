@@ -0,0 +1,82 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { MARS_TOKEN } from "../../../../src/config/constants";
+import { storageService } from "../../../../src/services/storageService";
+import { isValidDateString, toDateString } from "../../../../src/utils/date";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    TokenomicsDayResponse | { error: string; message: string }
+  >
+) {
+  // Set CORS headers to allow cross-origin requests
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  // Handle preflight requests
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET requests are supported",
+    });
+  }
+
+  const { date } = req.query;
+
+  if (typeof date !== "string" || !isValidDateString(date)) {
+    return res.status(400).json({
+      error: "Invalid date parameter",
+      message: "date must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  try {
+    const result = await storageService.getData(date);
+
+    if (result.notFound) {
+      return res.status(404).json({
+        error: "No data found",
+        message: `No tokenomics data available for ${date}`,
+      });
+    }
+
+    if (!result.success) {
+      console.error(`Failed to fetch data for ${date}:`, result.error);
+      return res.status(500).json({
+        error: "Data fetch failed",
+        message: result.error || "Unknown error occurred",
+      });
+    }
+
+    const data = result.data!;
+
+    // Today's record is rewritten hourly, earlier days only by backfills
+    const cacheMaxAge = date === toDateString(new Date()) ? 300 : 3600;
+    res.setHeader(
+      "Cache-Control",
+      `public, s-maxage=${cacheMaxAge}, stale-while-revalidate=86400`
+    );
+
+    return res.status(200).json({
+      data,
+      meta: {
+        token: MARS_TOKEN,
+        last_updated: data.updated_at || `${data.date}T00:00:00.000Z`,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    console.error("Unexpected error in tokenomics date API:", errorMessage);
+
+    return res.status(500).json({
+      error: "Internal server error",
+      message: errorMessage,
+    });
+  }
+}
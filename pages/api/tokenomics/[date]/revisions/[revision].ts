@@ -0,0 +1,91 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { MARS_TOKEN } from "../../../../../src/config/constants";
+import { storageService } from "../../../../../src/services/storageService";
+import { isValidDateString } from "../../../../../src/utils/date";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    TokenomicsRevisionResponse | { error: string; message: string }
+  >
+) {
+  // Set CORS headers to allow cross-origin requests
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  // Handle preflight requests
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET requests are supported",
+    });
+  }
+
+  const { date, revision } = req.query;
+
+  if (typeof date !== "string" || !isValidDateString(date)) {
+    return res.status(400).json({
+      error: "Invalid date parameter",
+      message: "date must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  if (typeof revision !== "string" || !/^[1-9]\d*$/.test(revision)) {
+    return res.status(400).json({
+      error: "Invalid revision parameter",
+      message: "revision must be a positive integer",
+    });
+  }
+
+  try {
+    const result = await storageService.getRevision(
+      date,
+      parseInt(revision, 10)
+    );
+
+    if (result.notFound) {
+      return res.status(404).json({
+        error: "No data found",
+        message: `No revision ${revision} available for ${date}`,
+      });
+    }
+
+    if (!result.success) {
+      console.error(
+        `Failed to fetch revision ${revision} for ${date}:`,
+        result.error
+      );
+      return res.status(500).json({
+        error: "Data fetch failed",
+        message: result.error || "Unknown error occurred",
+      });
+    }
+
+    // Revisions are never rewritten
+    res.setHeader(
+      "Cache-Control",
+      "public, s-maxage=86400, stale-while-revalidate=86400"
+    );
+
+    return res.status(200).json({
+      data: result.data!,
+      meta: {
+        token: MARS_TOKEN,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    console.error("Unexpected error in tokenomics revision API:", errorMessage);
+
+    return res.status(500).json({
+      error: "Internal server error",
+      message: errorMessage,
+    });
+  }
+}
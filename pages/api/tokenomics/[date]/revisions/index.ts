@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { MARS_TOKEN } from "../../../../../src/config/constants";
+import { storageService } from "../../../../../src/services/storageService";
+import { isValidDateString } from "../../../../../src/utils/date";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    TokenomicsRevisionsResponse | { error: string; message: string }
+  >
+) {
+  // Set CORS headers to allow cross-origin requests
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  // Handle preflight requests
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET requests are supported",
+    });
+  }
+
+  const { date } = req.query;
+
+  if (typeof date !== "string" || !isValidDateString(date)) {
+    return res.status(400).json({
+      error: "Invalid date parameter",
+      message: "date must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  try {
+    const result = await storageService.getRevisions(date);
+
+    if (!result.success) {
+      console.error(`Failed to fetch revisions for ${date}:`, result.error);
+      return res.status(500).json({
+        error: "Data fetch failed",
+        message: result.error || "Unknown error occurred",
+      });
+    }
+
+    const revisions = result.data!;
+
+    // A new revision is added whenever the day's record is overwritten
+    res.setHeader(
+      "Cache-Control",
+      "public, s-maxage=300, stale-while-revalidate=86400"
+    );
+
+    // Records can be large, so the list only carries what changed
+    return res.status(200).json({
+      data: revisions.map(({ revision, replaced_at, changes }) => ({
+        revision,
+        replaced_at,
+        changes,
+      })),
+      meta: {
+        token: MARS_TOKEN,
+        date,
+        total_revisions: revisions.length,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    console.error(
+      "Unexpected error in tokenomics revisions API:",
+      errorMessage
+    );
+
+    return res.status(500).json({
+      error: "Internal server error",
+      message: errorMessage,
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import {
+  MARS_TOKEN,
+  TREASURY_EVENT_CONFIG,
+  VALIDATION_RULES,
+} from "../../../src/config/constants";
+import { storageService } from "../../../src/services/storageService";
+import {
+  addDays,
+  daysBetween,
+  isValidDateString,
+  toDateString,
+} from "../../../src/utils/date";
+import { numberToAmount } from "../../../src/utils/decimal";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    TreasuryEventsResponse | { error: string; message: string }
+  >
+) {
+  // Set CORS headers to allow cross-origin requests
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  // Handle preflight requests
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({
+      error: "Method not allowed",
+      message: "Only GET requests are supported",
+    });
+  }
+
+  const { from, to } = req.query;
+
+  // Defaults to the last DEFAULT_DAYS days up to today
+  const toParam = to === undefined ? toDateString(new Date()) : to;
+  if (typeof toParam !== "string" || !isValidDateString(toParam)) {
+    return res.status(400).json({
+      error: "Invalid to parameter",
+      message: "to must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  const fromParam =
+    from === undefined
+      ? addDays(toParam, 1 - TREASURY_EVENT_CONFIG.DEFAULT_DAYS)
+      : from;
+  if (typeof fromParam !== "string" || !isValidDateString(fromParam)) {
+    return res.status(400).json({
+      error: "Invalid from parameter",
+      message: "from must be a valid ISO date (YYYY-MM-DD)",
+    });
+  }
+
+  if (fromParam > toParam) {
+    return res.status(400).json({
+      error: "Invalid date range",
+      message: "from must be on or before to",
+    });
+  }
+
+  if (daysBetween(fromParam, toParam) >= TREASURY_EVENT_CONFIG.MAX_DAYS) {
+    return res.status(400).json({
+      error: "Invalid date range",
+      message: `Ranges are limited to ${TREASURY_EVENT_CONFIG.MAX_DAYS} days`,
+    });
+  }
+
+  try {
+    const result = await storageService.getTreasuryEvents(fromParam, toParam);
+
+    if (!result.success) {
+      console.error("Failed to fetch treasury events:", result.error);
+      return res.status(500).json({
+        error: "Data fetch failed",
+        message: result.error || "Unknown error occurred",
+      });
+    }
+
+    // Today's event can still change with each indexing run
+    res.setHeader(
+      "Cache-Control",
+      "public, s-maxage=300, stale-while-revalidate=86400"
+    );
+
+    const outflowRule = VALIDATION_RULES.find(
+      (rule) => rule.id === "treasury_outflow"
+    );
+
+    return res.status(200).json({
+      data: result.data!,
+      meta: {
+        token: MARS_TOKEN,
+        range: { from: fromParam, to: toParam },
+        threshold: outflowRule
+          ? numberToAmount(outflowRule.threshold)
+          : TREASURY_EVENT_CONFIG.OUTFLOW_THRESHOLD,
+        total_events: result.data!.length,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    console.error("Unexpected error in treasury events API:", errorMessage);
+
+    return res.status(500).json({
+      error: "Internal server error",
+      message: errorMessage,
+    });
+  }
+}
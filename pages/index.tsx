@@ -80,6 +80,14 @@ export default function Home() {
 
           <h3 style={{ color: "#555" }}>Data Sources</h3>
           <ul style={{ color: "#666" }}>
+            <li>
+              <strong>Total Supply:</strong> Neutron blockchain (bank module
+              supply)
+            </li>
+            <li>
+              <strong>Circulating Supply:</strong> Total supply minus burned,
+              treasury and locked balances
+            </li>
             <li>
               <strong>Burned Supply:</strong> Neutron blockchain (burn address
               balance)
@@ -95,10 +103,6 @@ export default function Home() {
               <strong>On-Chain Liquidity:</strong> Astroport pools
             </li>
           </ul>
-          <p style={{ color: "#666", fontSize: "0.9rem", fontStyle: "italic" }}>
-            Note: Total and circulating supply data are available through other
-            Mars Protocol services.
-          </p>
         </div>
 
         <div
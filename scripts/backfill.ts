@@ -0,0 +1,70 @@
+/**
+ * Reconstruct days missing between the first and last stored records
+ * Run with: npx ts-node scripts/backfill.ts [--dry-run] [--limit N]
+ */
+
+import { backfillService } from "../src/services/backfillService";
+
+function parseLimit(): number | undefined {
+  const index = process.argv.indexOf("--limit");
+  if (index === -1) {
+    return undefined;
+  }
+
+  const limit = parseInt(process.argv[index + 1], 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error("--limit must be a positive number");
+  }
+  return limit;
+}
+
+async function backfill() {
+  const startTime = Date.now();
+  const dryRun = process.argv.includes("--dry-run");
+
+  try {
+    const limit = parseLimit();
+
+    console.log("🔍 Looking for missing days...");
+    const result = await backfillService.backfill({ limit, dryRun });
+
+    if (!result.success) {
+      console.error("❌ Backfill failed:", result.error);
+      return;
+    }
+
+    const { gaps, filled, failed, remaining } = result.data!;
+
+    if (gaps.length === 0) {
+      console.log("✅ No missing days found");
+      return;
+    }
+
+    console.log(`📅 Missing days: ${gaps.length}`);
+    if (dryRun) {
+      gaps.forEach((date) => console.log(`  - ${date}`));
+      return;
+    }
+
+    filled.forEach((date) => console.log(`✅ Backfilled ${date}`));
+    failed.forEach(({ date, error }) =>
+      console.error(`❌ Could not backfill ${date}: ${error}`)
+    );
+    if (remaining.length > 0) {
+      console.log(
+        `⏭️  ${remaining.length} days left, run again to continue from ${remaining[0]}`
+      );
+    }
+  } catch (error) {
+    console.error(
+      "❌ Unexpected error:",
+      error instanceof Error ? error.message : error
+    );
+  } finally {
+    const executionTime = Date.now() - startTime;
+    console.log(`⏱️  Execution time: ${executionTime}ms`);
+  }
+}
+
+// Run the script
+backfill().catch(console.error);
@@ -6,6 +6,34 @@
 import { dataFetcher } from "../src/services/dataFetcher";
 import { storageService } from "../src/services/storageService";
 import { validationService } from "../src/services/validationService";
+import { TOKENOMICS_METRICS, toHourlySnapshot } from "../src/utils/tokenomics";
+
+// Same as the cron after a record is stored: keep the run's hourly snapshot
+// and the treasury events detected in the record
+async function storeRunExtras(
+  data: DailyTokenomicsData,
+  events: TreasuryOutflowEvent[]
+) {
+  const snapshotResult = await storageService.storeHourlySnapshot(
+    toHourlySnapshot(data)
+  );
+  if (snapshotResult.success) {
+    console.log("🕐 Hourly snapshot stored");
+  } else {
+    console.error("❌ Failed to store hourly snapshot:", snapshotResult.error);
+  }
+
+  for (const event of events) {
+    const eventResult = await storageService.storeTreasuryEvent(event);
+    if (eventResult.success) {
+      console.log(
+        `🏦 Treasury outflow of ${event.delta} MARS since ${event.previous_date} stored`
+      );
+    } else {
+      console.error("❌ Failed to store treasury event:", eventResult.error);
+    }
+  }
+}
 
 async function manualIndex() {
   console.log("Starting manual data indexing...");
@@ -29,15 +57,20 @@ async function manualIndex() {
     // Fetch data
     console.log("📥 Fetching tokenomics data...");
     const fetchResult = await dataFetcher.fetchAllData();
+    let currentData: DailyTokenomicsData;
 
-    if (!fetchResult.success) {
-      console.error("❌ Failed to fetch data:", fetchResult.error);
+    if (fetchResult.failedMetrics.length > 0) {
+      console.error("❌ Failed to fetch some metrics:");
+      fetchResult.failedMetrics.forEach((metric) =>
+        console.error(`  - ${metric}: ${fetchResult.metrics[metric].error}`)
+      );
 
-      // Try fallback
+      // Try fallback for the failed metrics only
       console.log("🔄 Attempting fallback...");
       const fallbackResult = await validationService.createFallbackData(
         today,
-        {}
+        fetchResult.data,
+        fetchResult.failedMetrics
       );
 
       if (!fallbackResult.success) {
@@ -45,36 +78,81 @@ async function manualIndex() {
         return;
       }
 
-      const storeResult = await storageService.storeData(fallbackResult.data!);
-      if (storeResult.success) {
-        console.log("✅ Fallback data stored successfully");
-        console.log("⚠️  Used previous day data due to fetch failures");
-      } else {
-        console.error("❌ Failed to store fallback data:", storeResult.error);
-      }
-      return;
+      currentData = fallbackResult.data!;
+      console.log(
+        `⚠️  Using previous day data for: ${fetchResult.failedMetrics.join(
+          ", "
+        )}`
+      );
+    } else {
+      currentData = fetchResult.data as DailyTokenomicsData;
+      console.log("✅ Data fetched successfully");
     }
 
-    const currentData = fetchResult.data!;
-    console.log("✅ Data fetched successfully");
-
     // Validate data
     console.log("🔍 Validating data...");
     const previousData = await validationService.getValidationContext(today);
+    const history = await validationService.getValidationHistory(today);
     const validationResult = await validationService.validateData(
       currentData,
-      previousData || undefined
+      previousData || undefined,
+      history
+    );
+    currentData = validationService.annotateProvenance(
+      currentData,
+      validationResult
     );
 
     if (!validationResult.isValid) {
       console.error("❌ Data validation failed:");
       validationResult.errors.forEach((error) => console.error(`  - ${error}`));
 
-      // Try fallback with partial data
+      const quarantineResult = await storageService.storeQuarantinedRecord({
+        date: today,
+        quarantined_at: new Date().toISOString(),
+        data: currentData,
+        responses: fetchResult.responses,
+        errors: validationResult.errors,
+        warnings: validationResult.warnings,
+        findings: validationResult.findings,
+        invalid_fields: validationResult.invalidFields,
+      });
+      if (quarantineResult.success) {
+        console.log(
+          `🗄️  Rejected data quarantined as entry ${
+            quarantineResult.data!.entry
+          }`
+        );
+      } else {
+        console.error("❌ Failed to quarantine data:", quarantineResult.error);
+      }
+
+      // Keep a record an admin approved for the day, as the cron does
+      const quarantined = await storageService.getQuarantinedRecords(
+        today,
+        today
+      );
+      const approved = quarantined.data?.find(
+        (entry) => entry.status === "approved"
+      );
+      if (approved) {
+        console.log(
+          `✅ Kept the record approved from quarantine entry ${approved.entry}`
+        );
+        await storeRunExtras(approved.data, []);
+        return;
+      }
+
+      // Try fallback for the metrics that failed validation
       console.log("🔄 Creating fallback with partial data...");
+      const fieldsToReplace =
+        validationResult.invalidFields.length > 0
+          ? validationResult.invalidFields
+          : TOKENOMICS_METRICS;
       const fallbackResult = await validationService.createFallbackData(
         today,
-        currentData
+        currentData,
+        fieldsToReplace
       );
 
       if (fallbackResult.success) {
@@ -83,7 +161,18 @@ async function manualIndex() {
         );
         if (storeResult.success) {
           console.log("✅ Fallback data stored successfully");
-          console.log("⚠️  Used fallback due to validation failures");
+          console.log(
+            `⚠️  Carried forward: ${fallbackResult.data!.carried_forward?.fields.join(
+              ", "
+            )}`
+          );
+          // Balances replaced by the fallback are not the ones the events saw
+          await storeRunExtras(
+            fallbackResult.data!,
+            fieldsToReplace.includes("address_balances")
+              ? []
+              : validationResult.events
+          );
         } else {
           console.error("❌ Failed to store fallback data:", storeResult.error);
         }
@@ -109,9 +198,14 @@ async function manualIndex() {
       console.error("❌ Failed to store data:", storeResult.error);
       return;
     }
+    await storeRunExtras(currentData, validationResult.events);
 
     console.log("✅ Data indexed successfully!");
     console.log(`📊 Data summary for ${today}:`);
+    console.log(`  - Total Supply: ${currentData.total_supply} MARS`);
+    console.log(
+      `  - Circulating Supply: ${currentData.circulating_supply} MARS`
+    );
     console.log(`  - Burned Supply: ${currentData.burned_supply} MARS`);
     console.log(`  - Treasury Supply: ${currentData.treasury_supply} MARS`);
     console.log(`  - Price: $${currentData.price_usd}`);
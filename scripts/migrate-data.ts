@@ -0,0 +1,51 @@
+/**
+ * Upgrade stored daily records to the current schema version in place
+ * Run with: npx ts-node scripts/migrate-data.ts [--dry-run]
+ */
+
+import { SCHEMA_VERSION } from "../src/config/constants";
+import { storageService } from "../src/services/storageService";
+
+async function migrateData() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(
+    `${
+      dryRun ? "Checking" : "Migrating"
+    } stored records for schema version ${SCHEMA_VERSION}...`
+  );
+
+  const startTime = Date.now();
+
+  try {
+    const result = await storageService.migrateStoredData({ dryRun });
+
+    if (!result.success) {
+      console.error("❌ Migration failed:", result.error);
+      return;
+    }
+
+    if (result.data!.length === 0) {
+      console.log("✅ All stored records are up to date");
+      return;
+    }
+
+    result.data!.forEach((date) => console.log(`  - ${date}`));
+    console.log(
+      dryRun
+        ? `⚠️  ${result.data!.length} records need migrating`
+        : `✅ Migrated ${result.data!.length} records and rebuilt history files`
+    );
+  } catch (error) {
+    console.error(
+      "❌ Unexpected error:",
+      error instanceof Error ? error.message : error
+    );
+  } finally {
+    const executionTime = Date.now() - startTime;
+    console.log(`⏱️  Execution time: ${executionTime}ms`);
+  }
+}
+
+// Run the script
+migrateData().catch(console.error);
@@ -0,0 +1,40 @@
+/**
+ * Regenerate the monthly history files from the per-day files
+ * Run with: npx ts-node scripts/rebuild-history.ts
+ */
+
+import { storageService } from "../src/services/storageService";
+
+async function rebuildHistory() {
+  console.log("Rebuilding monthly history files...");
+
+  const startTime = Date.now();
+
+  try {
+    const result = await storageService.rebuildHistory();
+
+    if (!result.success) {
+      console.error("❌ Rebuild failed:", result.error);
+      return;
+    }
+
+    if (result.data!.length === 0) {
+      console.log("⚠️  No daily files found");
+      return;
+    }
+
+    result.data!.forEach((month) => console.log(`  - history-${month}.json`));
+    console.log(`✅ Rebuilt ${result.data!.length} monthly history files`);
+  } catch (error) {
+    console.error(
+      "❌ Unexpected error:",
+      error instanceof Error ? error.message : error
+    );
+  } finally {
+    const executionTime = Date.now() - startTime;
+    console.log(`⏱️  Execution time: ${executionTime}ms`);
+  }
+}
+
+// Run the script
+rebuildHistory().catch(console.error);
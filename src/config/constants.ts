@@ -12,6 +12,7 @@ export const ENDPOINTS = {
   NEUTRON_REST: "https://rest-lb.neutron.org",
   COINGECKO_BASE: "https://api.coingecko.com/api/v3",
   ASTROPORT_POOLS: "https://app.astroport.fi/api/pools",
+  OSMOSIS_LCD: "https://lcd.osmosis.zone",
 } as const;
 
 export const WALLETS = {
@@ -20,9 +21,172 @@ export const WALLETS = {
     "neutron1yv9veqnaxt3xwafnfdtr9r995m50ad6039lduux5huay6nhnef8sapq3zp",
 } as const;
 
+export const ADDRESS_CATEGORIES: readonly AddressCategory[] = [
+  "burn",
+  "treasury",
+  "locked",
+  "custom",
+];
+
+// Categories whose balances are subtracted from total supply to derive the
+// circulating supply. "custom" addresses are tracked for reporting only.
+export const NON_CIRCULATING_CATEGORIES: readonly AddressCategory[] = [
+  "burn",
+  "treasury",
+  "locked",
+];
+
+function parseTrackedAddresses(value: string | undefined): TrackedAddress[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array");
+    }
+
+    return parsed.map((entry, index) => {
+      if (
+        typeof entry?.address !== "string" ||
+        typeof entry?.label !== "string" ||
+        !ADDRESS_CATEGORIES.includes(entry?.category)
+      ) {
+        throw new Error(
+          `entry ${index} needs an address, a label and a category (${ADDRESS_CATEGORIES.join(
+            ", "
+          )})`
+        );
+      }
+      return {
+        address: entry.address,
+        label: entry.label,
+        category: entry.category,
+      };
+    });
+  } catch (error) {
+    console.error(
+      "Ignoring invalid TRACKED_ADDRESSES:",
+      error instanceof Error ? error.message : error
+    );
+    return [];
+  }
+}
+
+// Addresses whose MARS balance is locked and therefore excluded from the
+// circulating supply. Kept for deployments that predate TRACKED_ADDRESSES.
+const EXCLUDED_SUPPLY_ADDRESSES: string[] = (
+  process.env.CIRCULATING_SUPPLY_EXCLUDED_ADDRESSES ?? ""
+)
+  .split(",")
+  .map((address) => address.trim())
+  .filter((address) => address.length > 0);
+
+const DEFAULT_TRACKED_ADDRESSES: TrackedAddress[] = [
+  { address: WALLETS.BURN_ADDRESS, label: "Burn", category: "burn" },
+  {
+    address: WALLETS.TREASURY_ADDRESS,
+    label: "Treasury",
+    category: "treasury",
+  },
+];
+
+// Every wallet whose MARS balance is fetched on each indexing run. Extend with
+// a TRACKED_ADDRESSES environment variable holding a JSON array of
+// { "address", "label", "category" } objects.
+export const TRACKED_ADDRESSES: TrackedAddress[] = [
+  ...DEFAULT_TRACKED_ADDRESSES,
+  ...EXCLUDED_SUPPLY_ADDRESSES.map(
+    (address): TrackedAddress => ({
+      address,
+      label: address,
+      category: "locked",
+    })
+  ),
+  ...parseTrackedAddresses(process.env.TRACKED_ADDRESSES),
+].filter(
+  (tracked, index, all) =>
+    all.findIndex((other) => other.address === tracked.address) === index
+);
+
+export const CONTRACT_BALANCE_CATEGORIES: readonly ContractBalanceCategory[] = [
+  "staked",
+  "vesting",
+];
+
+function parseTrackedContracts(value: string | undefined): TrackedContract[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array");
+    }
+
+    return parsed.map((entry, index) => {
+      if (
+        typeof entry?.address !== "string" ||
+        typeof entry?.label !== "string" ||
+        !CONTRACT_BALANCE_CATEGORIES.includes(entry?.category) ||
+        typeof entry?.query !== "object" ||
+        entry.query === null ||
+        Array.isArray(entry.query) ||
+        typeof entry?.amount_path !== "string"
+      ) {
+        throw new Error(
+          `entry ${index} needs an address, a label, a category (${CONTRACT_BALANCE_CATEGORIES.join(
+            ", "
+          )}), a query object and an amount_path`
+        );
+      }
+      return {
+        address: entry.address,
+        label: entry.label,
+        category: entry.category,
+        query: entry.query,
+        amount_path: entry.amount_path,
+      };
+    });
+  } catch (error) {
+    console.error(
+      "Ignoring invalid TRACKED_CONTRACTS:",
+      error instanceof Error ? error.message : error
+    );
+    return [];
+  }
+}
+
+// CosmWasm contracts holding MARS for stakers or vesting schedules, read with
+// a smart query on each indexing run. Configure with a TRACKED_CONTRACTS
+// environment variable holding a JSON array of
+// { "address", "label", "category", "query", "amount_path" } objects.
+export const TRACKED_CONTRACTS: TrackedContract[] = parseTrackedContracts(
+  process.env.TRACKED_CONTRACTS
+);
+
 export const COINGECKO_MARS_ID =
   "mars-protocol-a7fcbcfb-fd61-4017-92f0-7ee9f9cc6da3";
 
+// Optional Osmosis pool quoted as a price source. The quote asset must be a
+// USD stablecoin with the same number of decimals as MARS.
+export const OSMOSIS_PRICE_POOL: OsmosisPricePool | null =
+  process.env.OSMOSIS_MARS_POOL_ID &&
+  process.env.OSMOSIS_MARS_DENOM &&
+  process.env.OSMOSIS_QUOTE_DENOM
+    ? {
+        poolId: process.env.OSMOSIS_MARS_POOL_ID,
+        baseDenom: process.env.OSMOSIS_MARS_DENOM,
+        quoteDenom: process.env.OSMOSIS_QUOTE_DENOM,
+      }
+    : null;
+
+export const PRICE_CONFIG = {
+  MAX_DEVIATION_PERCENT: 10, // Quotes further from the median are rejected
+} as const;
+
 export const VALIDATION_THRESHOLDS = {
   MAX_DAILY_CHANGE_PERCENT: 50, // 50% max daily change
   MIN_PRICE_USD: 0.0001, // Minimum reasonable price
@@ -31,6 +195,402 @@ export const VALIDATION_THRESHOLDS = {
   MAX_SUPPLY: 100000000000, // Maximum reasonable supply (100B tokens)
 } as const;
 
+const DEFAULT_TREASURY_OUTFLOW_THRESHOLD = "1000000";
+
+function parseAmount(name: string, fallback: string): string {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  if (!/^\d+(\.\d{1,6})?$/.test(value)) {
+    console.error(
+      `Ignoring invalid ${name}: expected a MARS amount such as 250000.5`
+    );
+    return fallback;
+  }
+  return value;
+}
+
+export const TREASURY_EVENT_CONFIG = {
+  // Day-over-day decrease of the treasury supply, in MARS, that is recorded
+  // as a treasury outflow event. Override with TREASURY_OUTFLOW_THRESHOLD.
+  OUTFLOW_THRESHOLD: parseAmount(
+    "TREASURY_OUTFLOW_THRESHOLD",
+    DEFAULT_TREASURY_OUTFLOW_THRESHOLD
+  ),
+  DEFAULT_DAYS: 90, // Range served by /api/treasury/events without from/to
+  MAX_DAYS: 366, // Longest range served, one monthly file read per month
+} as const;
+
+// Rolling-window checks of price and liquidity against recent stored days.
+// Scores are robust z-scores: distance from the window median in units of
+// the median absolute deviation, scaled to match a standard deviation.
+export const ANOMALY_CONFIG = {
+  WINDOW_DAYS: 14, // Default lookback of the score and decrease rules
+  MIN_HISTORY_DAYS: 5, // Rolling checks are skipped with fewer stored days
+  WARNING_SCORE: 3.5,
+  MIN_SPREAD_PERCENT: 5, // Floor for the spread, so a flat window does not flag every move
+} as const;
+
+// Metrics fetched independently on each indexing run. Everything else in a
+// DailyTokenomicsData record is derived from these.
+export const TOKENOMICS_METRICS: TokenomicsMetric[] = [
+  "total_supply",
+  "address_balances",
+  "contract_balances",
+  "price_usd",
+  "on_chain_liquidity_usd",
+];
+
+export const RULE_METRICS: readonly RuleMetric[] = [
+  "price_usd",
+  "on_chain_liquidity_usd",
+  "total_supply",
+  "circulating_supply",
+  "burned_supply",
+  "treasury_supply",
+];
+
+export const RULE_COMPARATORS: readonly RuleComparator[] = [
+  "negative",
+  "below",
+  "above",
+  "exceeds_total_supply",
+  "usd_mismatch",
+  "change_percent",
+  "increase_percent",
+  "drops_to_zero",
+  "decrease",
+  "outflow",
+  "change_score",
+  "median_score",
+];
+
+// Rolling-window scores only flag values for review: a genuine market move
+// scores as high as bad data, and failing it would keep the old value stored
+const SCORE_COMPARATORS: readonly RuleComparator[] = [
+  "change_score",
+  "median_score",
+];
+
+export const VALIDATION_SEVERITIES: readonly ValidationSeverity[] = [
+  "info",
+  "warning",
+  "error",
+];
+
+// Checks run on every record, in order. When several rules with the same
+// metric and comparator fire, only the most severe one is reported.
+export const DEFAULT_VALIDATION_RULES: readonly ValidationRule[] = [
+  {
+    id: "price_min",
+    metric: "price_usd",
+    comparator: "below",
+    threshold: VALIDATION_THRESHOLDS.MIN_PRICE_USD,
+    severity: "error",
+    lookback: 0,
+  },
+  {
+    id: "price_max",
+    metric: "price_usd",
+    comparator: "above",
+    threshold: VALIDATION_THRESHOLDS.MAX_PRICE_USD,
+    severity: "error",
+    lookback: 0,
+  },
+  {
+    id: "total_supply_min",
+    metric: "total_supply",
+    comparator: "below",
+    threshold: VALIDATION_THRESHOLDS.MIN_SUPPLY,
+    severity: "error",
+    lookback: 0,
+  },
+  {
+    id: "total_supply_max",
+    metric: "total_supply",
+    comparator: "above",
+    threshold: VALIDATION_THRESHOLDS.MAX_SUPPLY,
+    severity: "error",
+    lookback: 0,
+  },
+  {
+    id: "circulating_supply_within_total",
+    metric: "circulating_supply",
+    comparator: "exceeds_total_supply",
+    threshold: 0,
+    severity: "error",
+    lookback: 0,
+  },
+  ...(
+    [
+      "total_supply",
+      "circulating_supply",
+      "burned_supply",
+      "treasury_supply",
+    ] as RuleMetric[]
+  ).map(
+    (metric): ValidationRule => ({
+      id: `${metric}_negative`,
+      metric,
+      comparator: "negative",
+      threshold: 0,
+      severity: "error",
+      lookback: 0,
+      message: "Supply values cannot be negative",
+      metrics: ["total_supply", "address_balances"],
+    })
+  ),
+  {
+    id: "on_chain_liquidity_negative",
+    metric: "on_chain_liquidity_usd",
+    comparator: "negative",
+    threshold: 0,
+    severity: "error",
+    lookback: 0,
+    message: "On-chain liquidity cannot be negative: {value}",
+  },
+  // Allows 1% difference for rounding
+  ...(
+    [
+      "burned_supply",
+      "treasury_supply",
+      "total_supply",
+      "circulating_supply",
+    ] as RuleMetric[]
+  ).map(
+    (metric): ValidationRule => ({
+      id: `${metric}_usd_mismatch`,
+      metric,
+      comparator: "usd_mismatch",
+      threshold: 1,
+      severity: "error",
+      lookback: 0,
+    })
+  ),
+  {
+    id: "price_change_error",
+    metric: "price_usd",
+    comparator: "change_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT,
+    severity: "error",
+    lookback: 1,
+  },
+  {
+    id: "price_change_warning",
+    metric: "price_usd",
+    comparator: "change_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT / 2,
+    severity: "warning",
+    lookback: 1,
+  },
+  {
+    id: "price_drop_to_zero",
+    metric: "price_usd",
+    comparator: "drops_to_zero",
+    threshold: 0,
+    severity: "error",
+    lookback: 1,
+  },
+  {
+    id: "total_supply_change",
+    metric: "total_supply",
+    comparator: "change_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT,
+    severity: "error",
+    lookback: 1,
+  },
+  {
+    id: "total_supply_drop_to_zero",
+    metric: "total_supply",
+    comparator: "drops_to_zero",
+    threshold: 0,
+    severity: "error",
+    lookback: 1,
+  },
+  {
+    id: "circulating_supply_change",
+    metric: "circulating_supply",
+    comparator: "change_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT,
+    severity: "warning",
+    lookback: 1,
+  },
+  {
+    id: "burned_supply_increase",
+    metric: "burned_supply",
+    comparator: "increase_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT,
+    severity: "warning",
+    lookback: 1,
+  },
+  {
+    id: "treasury_supply_change",
+    metric: "treasury_supply",
+    comparator: "change_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT,
+    severity: "warning",
+    lookback: 1,
+  },
+  {
+    // Allows more variation for liquidity
+    id: "liquidity_change",
+    metric: "on_chain_liquidity_usd",
+    comparator: "change_percent",
+    threshold: VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT * 2,
+    severity: "warning",
+    lookback: 1,
+  },
+  {
+    // Burned MARS cannot be unburned
+    id: "burned_supply_decrease",
+    metric: "burned_supply",
+    comparator: "decrease",
+    threshold: 0,
+    severity: "error",
+    lookback: ANOMALY_CONFIG.WINDOW_DAYS,
+  },
+  {
+    // Fired outflows are also stored as treasury events
+    id: "treasury_outflow",
+    metric: "treasury_supply",
+    comparator: "outflow",
+    threshold: Number(TREASURY_EVENT_CONFIG.OUTFLOW_THRESHOLD),
+    severity: "warning",
+    lookback: 1,
+    message:
+      "Treasury outflow of {value} MARS since {date} (threshold: {threshold})",
+  },
+  ...(["price_usd", "on_chain_liquidity_usd"] as RuleMetric[]).reduce<
+    ValidationRule[]
+  >((rules, metric) => {
+    const prefix = metric.replace(/_usd$/, "").replace(/^on_chain_/, "");
+    for (const comparator of SCORE_COMPARATORS) {
+      rules.push({
+        id: `${prefix}_${comparator}`,
+        metric,
+        comparator,
+        threshold: ANOMALY_CONFIG.WARNING_SCORE,
+        severity: "warning",
+        lookback: ANOMALY_CONFIG.WINDOW_DAYS,
+      });
+    }
+    return rules;
+  }, []),
+];
+
+function isRuleField(
+  entry: ValidationRuleOverride,
+  key: keyof ValidationRule
+): boolean {
+  const value = entry[key];
+  switch (key) {
+    case "metric":
+      return RULE_METRICS.includes(value as RuleMetric);
+    case "comparator":
+      return RULE_COMPARATORS.includes(value as RuleComparator);
+    case "severity":
+      return VALIDATION_SEVERITIES.includes(value as ValidationSeverity);
+    case "threshold":
+      return typeof value === "number" && isFinite(value);
+    case "lookback":
+      return typeof value === "number" && value >= 0 && value % 1 === 0;
+    case "enabled":
+      return typeof value === "boolean";
+    case "message":
+      return typeof value === "string" && value !== "";
+    case "metrics":
+      return (
+        Array.isArray(value) &&
+        value.length > 0 &&
+        value.every((metric) => TOKENOMICS_METRICS.includes(metric))
+      );
+    default:
+      return key === "id" && typeof value === "string";
+  }
+}
+
+const RULE_FIELDS: (keyof ValidationRule)[] = [
+  "metric",
+  "comparator",
+  "threshold",
+  "severity",
+  "lookback",
+];
+
+function parseValidationRules(
+  value: string | undefined,
+  defaults: readonly ValidationRule[]
+): ValidationRule[] {
+  if (!value) {
+    return [...defaults];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array");
+    }
+
+    const rules = [...defaults];
+    parsed.forEach((entry: ValidationRuleOverride, index) => {
+      if (typeof entry?.id !== "string") {
+        throw new Error(`entry ${index} needs an id`);
+      }
+
+      const existing = rules.findIndex((rule) => rule.id === entry.id);
+      const invalid = (Object.keys(entry) as (keyof ValidationRule)[]).find(
+        (key) => !isRuleField(entry, key)
+      );
+      if (invalid) {
+        throw new Error(`entry ${index} has an invalid ${invalid}`);
+      }
+
+      if (existing < 0 && RULE_FIELDS.some((key) => entry[key] === undefined)) {
+        throw new Error(
+          `entry ${index} is a new rule and needs ${RULE_FIELDS.join(", ")}`
+        );
+      }
+
+      const rule: ValidationRule =
+        existing >= 0
+          ? { ...rules[existing], ...entry }
+          : (entry as ValidationRule);
+      if (
+        SCORE_COMPARATORS.includes(rule.comparator) &&
+        rule.severity === "error"
+      ) {
+        throw new Error(
+          `entry ${index} cannot make a ${rule.comparator} rule an error`
+        );
+      }
+
+      if (existing >= 0) {
+        rules[existing] = rule;
+      } else {
+        rules.push(rule);
+      }
+    });
+    return rules;
+  } catch (error) {
+    console.error(
+      "Ignoring invalid VALIDATION_RULES:",
+      error instanceof Error ? error.message : error
+    );
+    return [...defaults];
+  }
+}
+
+// Validation rules applied to every record. Override with a VALIDATION_RULES
+// environment variable holding a JSON array: entries with the id of a default
+// rule change its fields, such as { "id": "price_max", "threshold": 50 } or
+// { "id": "liquidity_change", "enabled": false }, and other entries add rules.
+export const VALIDATION_RULES: ValidationRule[] = parseValidationRules(
+  process.env.VALIDATION_RULES,
+  DEFAULT_VALIDATION_RULES
+);
+
 export const RETRY_CONFIG = {
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000, // 1 second
@@ -40,4 +600,27 @@ export const RETRY_CONFIG = {
 export const BLOB_CONFIG = {
   CONTAINER_NAME: "mars-tokenomics-data",
   FILE_PREFIX: "daily-data",
+  HISTORY_PREFIX: "history", // Monthly compacted files: history-YYYY-MM.json
+  HOURLY_PREFIX: "hourly-data", // Intraday snapshots: hourly-data-YYYY-MM-DD.json
+  REVISION_PREFIX: "revisions", // Replaced daily records: revisions-YYYY-MM-DD.json
+  TREASURY_EVENT_PREFIX: "treasury-events", // Monthly event files: treasury-events-YYYY-MM.json
+  QUARANTINE_PREFIX: "quarantine", // Rejected records: quarantine-YYYY-MM-DD.json
+} as const;
+
+export const STORAGE_CONFIG = {
+  BACKENDS: ["vercel", "filesystem", "memory"],
+  DEFAULT_DIR: ".data", // Relative to the working directory
 } as const;
+
+export const QUARANTINE_CONFIG = {
+  DEFAULT_DAYS: 30, // Range listed by /api/admin/quarantine without from/to
+} as const;
+
+export const HOURLY_CONFIG = {
+  MAX_DAYS: 7, // Longest range served with interval=1h
+  DEFAULT_DAYS: 3, // Range used when interval=1h is requested without from/to
+} as const;
+
+// Written to every stored record. Bump it together with a new migration in
+// src/utils/migrations.ts
+export const SCHEMA_VERSION = 2;
@@ -0,0 +1,146 @@
+import { aggregationService } from "../aggregationService";
+
+describe("AggregationService", () => {
+  const createMockData = (
+    date: string,
+    overrides: Partial<DailyTokenomicsData> = {}
+  ): DailyTokenomicsData => ({
+    date,
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+    ...overrides,
+  });
+
+  it("should return daily data unchanged for day granularity", () => {
+    const data = [createMockData("2025-09-12"), createMockData("2025-09-11")];
+
+    const result = aggregationService.aggregate(data, "day");
+
+    expect(result.data).toEqual(data);
+    expect(result.buckets).toEqual([
+      { start: "2025-09-12", end: "2025-09-12", records: 1 },
+      { start: "2025-09-11", end: "2025-09-11", records: 1 },
+    ]);
+  });
+
+  it("should roll days up into ISO weeks starting on Monday", () => {
+    const data = [
+      // Week of Monday 2025-09-08
+      createMockData("2025-09-14", { burned_supply: "52000000" }),
+      createMockData("2025-09-08", { burned_supply: "51000000" }),
+      // Week of Monday 2025-09-01
+      createMockData("2025-09-07", { burned_supply: "50000000" }),
+    ];
+
+    const result = aggregationService.aggregate(data, "week");
+
+    expect(result.buckets).toEqual([
+      { start: "2025-09-08", end: "2025-09-14", records: 2 },
+      { start: "2025-09-01", end: "2025-09-07", records: 1 },
+    ]);
+    expect(result.data.map((d) => d.date)).toEqual([
+      "2025-09-08",
+      "2025-09-01",
+    ]);
+    // Supply is the end-of-period value
+    expect(result.data[0].burned_supply).toBe("52000000");
+  });
+
+  it("should compute OHLC price and liquidity statistics per month", () => {
+    const data = [
+      createMockData("2025-09-30", {
+        price_usd: 0.2,
+        on_chain_liquidity_usd: 120000,
+      }),
+      createMockData("2025-09-15", {
+        price_usd: 0.25,
+        on_chain_liquidity_usd: 60000,
+      }),
+      createMockData("2025-09-01", {
+        price_usd: 0.15,
+        on_chain_liquidity_usd: 90000,
+      }),
+      createMockData("2025-08-31", { price_usd: 0.1 }),
+    ];
+
+    const result = aggregationService.aggregate(data, "month");
+
+    expect(result.buckets).toEqual([
+      { start: "2025-09-01", end: "2025-09-30", records: 3 },
+      { start: "2025-08-01", end: "2025-08-31", records: 1 },
+    ]);
+
+    const september = result.data[0];
+    expect(september.price_ohlc).toEqual({
+      open: 0.15,
+      high: 0.25,
+      low: 0.15,
+      close: 0.2,
+    });
+    expect(september.price_usd).toBeCloseTo(0.2);
+    expect(september.on_chain_liquidity_usd).toBe(90000);
+    expect(september.liquidity_range).toEqual({ min: 60000, max: 120000 });
+  });
+
+  it("should sum volume and LP fees over each bucket", () => {
+    const data = [
+      createMockData("2025-09-14", { volume_usd: 1200, lp_fees_usd: 3.6 }),
+      createMockData("2025-09-09", { volume_usd: 800, lp_fees_usd: 2.4 }),
+      // Stored before volume tracking
+      createMockData("2025-09-08"),
+      createMockData("2025-09-07"),
+    ];
+
+    const result = aggregationService.aggregate(data, "week");
+
+    expect(result.data[0].volume_usd).toBe(2000);
+    expect(result.data[0].lp_fees_usd).toBeCloseTo(6);
+    expect(result.data[1].volume_usd).toBeUndefined();
+    expect(result.data[1].lp_fees_usd).toBeUndefined();
+  });
+
+  it("should leave days with carried-forward liquidity out of the totals", () => {
+    const data = [
+      // Stored before fallbacks stopped copying volume and fees
+      createMockData("2025-09-14", {
+        volume_usd: 1200,
+        lp_fees_usd: 3.6,
+        carried_forward: {
+          fields: ["on_chain_liquidity_usd"],
+          from_date: "2025-09-13",
+        },
+      }),
+      createMockData("2025-09-13", { volume_usd: 1200, lp_fees_usd: 3.6 }),
+      createMockData("2025-09-12", {
+        volume_usd: 800,
+        lp_fees_usd: 2.4,
+        carried_forward: { fields: ["price_usd"], from_date: "2025-09-11" },
+      }),
+    ];
+
+    const result = aggregationService.aggregate(data, "week");
+
+    expect(result.data[0].volume_usd).toBe(2000);
+    expect(result.data[0].lp_fees_usd).toBeCloseTo(6);
+  });
+
+  it("should handle unsorted input", () => {
+    const data = [
+      createMockData("2025-08-31"),
+      createMockData("2025-09-02"),
+      createMockData("2025-09-01"),
+    ];
+
+    const result = aggregationService.aggregate(data, "month");
+
+    expect(result.buckets.map((bucket) => bucket.start)).toEqual([
+      "2025-09-01",
+      "2025-08-01",
+    ]);
+    expect(result.data[0].updated_at).toBeUndefined();
+  });
+});
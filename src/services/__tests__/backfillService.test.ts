@@ -0,0 +1,270 @@
+import { backfillService } from "../backfillService";
+
+jest.mock("../storageService", () => ({
+  storageService: {
+    getStoredDates: jest.fn(),
+    getData: jest.fn(),
+    storeData: jest.fn(),
+  },
+}));
+
+jest.mock("../dataFetcher", () => ({
+  dataFetcher: {
+    fetchPriceHistory: jest.fn(),
+    findBlockHeight: jest.fn(),
+    fetchTotalSupply: jest.fn(),
+    fetchTrackedBalances: jest.fn(),
+    fetchContractBalances: jest.fn(),
+  },
+}));
+
+const mockStorageService = require("../storageService").storageService;
+const mockDataFetcher = require("../dataFetcher").dataFetcher;
+
+describe("BackfillService", () => {
+  const storedRecord = (date: string): DailyTokenomicsData => ({
+    date,
+    total_supply: "1000000000",
+    circulating_supply: "800000000",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    total_supply_usd: 150000000,
+    circulating_supply_usd: 120000000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+    updated_at: `${date}T23:00:00.000Z`,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockStorageService.storeData.mockResolvedValue({
+      success: true,
+      data: "url",
+    });
+    mockDataFetcher.findBlockHeight.mockResolvedValue({
+      success: true,
+      data: 1000,
+    });
+    mockDataFetcher.fetchTotalSupply.mockResolvedValue({
+      success: true,
+      data: "1000000000",
+      attempts: 1,
+      fetchedAt: "2025-09-20T10:00:00.000Z",
+    });
+    mockDataFetcher.fetchTrackedBalances.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          address: "neutron1burn",
+          label: "Burn",
+          category: "burn",
+          amount: "50000000",
+        },
+        {
+          address: "neutron1treasury",
+          label: "Treasury",
+          category: "treasury",
+          amount: "150000000",
+        },
+      ],
+      attempts: 1,
+      fetchedAt: "2025-09-20T10:00:00.000Z",
+    });
+    mockDataFetcher.fetchContractBalances.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          address: "neutron1staking",
+          label: "Staking",
+          category: "staked",
+          amount: "300000000",
+        },
+      ],
+      attempts: 1,
+      fetchedAt: "2025-09-20T10:00:00.000Z",
+    });
+  });
+
+  describe("findGaps", () => {
+    it("should list the dates missing between stored dates", () => {
+      expect(
+        backfillService.findGaps([
+          "2025-09-01",
+          "2025-09-02",
+          "2025-09-05",
+          "2025-09-07",
+        ])
+      ).toEqual(["2025-09-03", "2025-09-04", "2025-09-06"]);
+    });
+
+    it("should find no gaps in contiguous or single-day storage", () => {
+      expect(backfillService.findGaps(["2025-09-01", "2025-09-02"])).toEqual(
+        []
+      );
+      expect(backfillService.findGaps(["2025-09-01"])).toEqual([]);
+    });
+  });
+
+  describe("backfill", () => {
+    it("should only report gaps on a dry run", async () => {
+      mockStorageService.getStoredDates.mockResolvedValue({
+        success: true,
+        data: ["2025-09-10", "2025-09-13"],
+      });
+
+      const result = await backfillService.backfill({ dryRun: true });
+
+      expect(result.data).toEqual({
+        gaps: ["2025-09-11", "2025-09-12"],
+        filled: [],
+        failed: [],
+        remaining: [],
+      });
+      expect(mockDataFetcher.fetchPriceHistory).not.toHaveBeenCalled();
+      expect(mockStorageService.storeData).not.toHaveBeenCalled();
+    });
+
+    it("should reconstruct and store consecutive missing days", async () => {
+      mockStorageService.getStoredDates.mockResolvedValue({
+        success: true,
+        data: ["2025-09-10", "2025-09-13"],
+      });
+      mockStorageService.getData.mockImplementation(async (date: string) =>
+        date === "2025-09-10"
+          ? {
+              success: true,
+              data: {
+                ...storedRecord("2025-09-10"),
+                mars_liquidity: "400000",
+                volume_usd: 25000,
+                lp_fees_usd: 75,
+              },
+            }
+          : { success: false, error: `No data found for date: ${date}` }
+      );
+      mockDataFetcher.fetchPriceHistory.mockResolvedValue({
+        success: true,
+        data: { "2025-09-11": 0.16, "2025-09-12": 0.17 },
+      });
+      mockDataFetcher.findBlockHeight
+        .mockResolvedValueOnce({ success: true, data: 1000 })
+        .mockResolvedValueOnce({ success: true, data: 1100 });
+
+      const result = await backfillService.backfill();
+
+      expect(result.data!.filled).toEqual(["2025-09-11", "2025-09-12"]);
+      expect(result.data!.failed).toEqual([]);
+      expect(mockDataFetcher.fetchPriceHistory).toHaveBeenCalledWith(
+        "2025-09-11",
+        "2025-09-12"
+      );
+      expect(mockDataFetcher.findBlockHeight).toHaveBeenNthCalledWith(
+        1,
+        "2025-09-11T23:59:59.999Z",
+        undefined
+      );
+      // The second search starts from the height found for the first day
+      expect(mockDataFetcher.findBlockHeight).toHaveBeenNthCalledWith(
+        2,
+        "2025-09-12T23:59:59.999Z",
+        1000
+      );
+      expect(mockDataFetcher.fetchTotalSupply).toHaveBeenCalledWith(1100);
+      expect(mockDataFetcher.fetchContractBalances).toHaveBeenCalledWith(1100);
+
+      const stored: DailyTokenomicsData =
+        mockStorageService.storeData.mock.calls[1][0];
+      expect(stored).toMatchObject({
+        date: "2025-09-12",
+        total_supply: "1000000000",
+        circulating_supply: "800000000",
+        price_usd: 0.17,
+        on_chain_liquidity_usd: 100000,
+        burned_supply_usd: 8500000,
+        staked_supply: "300000000",
+        vesting_supply: "0",
+        carried_forward: {
+          fields: ["on_chain_liquidity_usd"],
+          from_date: "2025-09-11",
+        },
+        backfilled: { at: expect.any(String), block_height: 1100 },
+      });
+      // Liquidity balances are carried, the 24h flows are not
+      expect(stored).toMatchObject({ mars_liquidity: "400000" });
+      expect(stored.volume_usd).toBeUndefined();
+      expect(stored.lp_fees_usd).toBeUndefined();
+      expect(stored.provenance!.on_chain_liquidity_usd!.source).toBe(
+        "fallback"
+      );
+      expect(stored.provenance!.total_supply!.warnings).toContain(
+        "Backfilled at height 1100"
+      );
+    });
+
+    it("should respect the limit and report the remaining gaps", async () => {
+      mockStorageService.getStoredDates.mockResolvedValue({
+        success: true,
+        data: ["2025-09-10", "2025-09-14"],
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: storedRecord("2025-09-10"),
+      });
+      mockDataFetcher.fetchPriceHistory.mockResolvedValue({
+        success: true,
+        data: { "2025-09-11": 0.15 },
+      });
+
+      const result = await backfillService.backfill({ limit: 1 });
+
+      expect(result.data!.filled).toEqual(["2025-09-11"]);
+      expect(result.data!.remaining).toEqual(["2025-09-12", "2025-09-13"]);
+    });
+
+    it("should skip days without a historical price", async () => {
+      mockStorageService.getStoredDates.mockResolvedValue({
+        success: true,
+        data: ["2025-09-10", "2025-09-12"],
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: storedRecord("2025-09-10"),
+      });
+      mockDataFetcher.fetchPriceHistory.mockResolvedValue({
+        success: true,
+        data: {},
+      });
+
+      const result = await backfillService.backfill();
+
+      expect(result.data!.failed).toEqual([
+        { date: "2025-09-11", error: "No historical price for 2025-09-11" },
+      ]);
+      expect(mockStorageService.storeData).not.toHaveBeenCalled();
+    });
+
+    it("should not store days that fail validation", async () => {
+      mockStorageService.getStoredDates.mockResolvedValue({
+        success: true,
+        data: ["2025-09-10", "2025-09-12"],
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: storedRecord("2025-09-10"),
+      });
+      mockDataFetcher.fetchPriceHistory.mockResolvedValue({
+        success: true,
+        data: { "2025-09-11": 0.5 }, // More than triple the previous price
+      });
+
+      const result = await backfillService.backfill();
+
+      expect(result.data!.filled).toEqual([]);
+      expect(result.data!.failed[0].error).toContain("Extreme price change");
+      expect(mockStorageService.storeData).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { dataFetcher } from '../dataFetcher';
-import { ENDPOINTS, WALLETS, COINGECKO_MARS_ID, MARS_TOKEN } from '../../config/constants';
+import { ENDPOINTS, WALLETS, COINGECKO_MARS_ID, MARS_TOKEN, TRACKED_ADDRESSES } from '../../config/constants';
 
 // Mock fetch
 const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
@@ -10,17 +10,18 @@ describe('DataFetcher', () => {
   });
 
   describe('fetchTotalSupply', () => {
-    it('should fetch and return total supply', async () => {
-      const mockSupply = '1000000000';
+    it('should fetch and normalize total supply from the bank module', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        text: async () => mockSupply,
+        json: async () => ({
+          amount: { denom: MARS_TOKEN.denom, amount: '1000000000000000' },
+        }),
       } as Response);
 
       const result = await dataFetcher.fetchTotalSupply();
 
       expect(mockFetch).toHaveBeenCalledWith(
-        ENDPOINTS.MARS_TOTAL_SUPPLY,
+        `${ENDPOINTS.NEUTRON_REST}/cosmos/bank/v1beta1/supply/by_denom?denom=${encodeURIComponent(MARS_TOKEN.denom)}`,
         expect.objectContaining({
           headers: expect.objectContaining({
             'User-Agent': 'mars-tokenomics-api/1.0.0',
@@ -29,7 +30,7 @@ describe('DataFetcher', () => {
         })
       );
       expect(result.success).toBe(true);
-      expect(result.data).toBe(mockSupply);
+      expect(result.data).toBe('1000000000');
     });
 
     it('should handle fetch errors with retry', async () => {
@@ -38,13 +39,17 @@ describe('DataFetcher', () => {
         .mockRejectedValueOnce(new Error('Network error'))
         .mockResolvedValueOnce({
           ok: true,
-          text: async () => '1000000000',
+          json: async () => ({
+            amount: { denom: MARS_TOKEN.denom, amount: '1000000000000000' },
+          }),
         } as Response);
 
       const result = await dataFetcher.fetchTotalSupply();
 
       expect(mockFetch).toHaveBeenCalledTimes(3);
       expect(result.success).toBe(true);
+      expect(result.attempts).toBe(3);
+      expect(result.fetchedAt).toEqual(expect.any(String));
     });
 
     it('should fail after max retries', async () => {
@@ -58,18 +63,54 @@ describe('DataFetcher', () => {
     });
   });
 
-  describe('fetchCirculatingSupply', () => {
-    it('should fetch and return circulating supply', async () => {
-      const mockSupply = '800000000';
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => mockSupply,
-      } as Response);
+  describe('fetchTrackedBalances', () => {
+    it('should fetch every tracked address', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            balances: [{ denom: MARS_TOKEN.denom, amount: '50000000000' }],
+            pagination: { next_key: null, total: '1' },
+          }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            balances: [],
+            pagination: { next_key: null, total: '0' },
+          }),
+        } as Response);
 
-      const result = await dataFetcher.fetchCirculatingSupply();
+      const result = await dataFetcher.fetchTrackedBalances();
 
+      expect(mockFetch).toHaveBeenCalledTimes(TRACKED_ADDRESSES.length);
       expect(result.success).toBe(true);
-      expect(result.data).toBe(mockSupply);
+      expect(result.data).toEqual([
+        {
+          address: WALLETS.BURN_ADDRESS,
+          label: 'Burn',
+          category: 'burn',
+          amount: '50000',
+          amount_raw: '50000000000',
+        },
+        {
+          address: WALLETS.TREASURY_ADDRESS,
+          label: 'Treasury',
+          category: 'treasury',
+          amount: '0',
+          amount_raw: '0',
+        },
+      ]);
+    });
+
+    it('should report which address failed', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const result = await dataFetcher.fetchTrackedBalances();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Burn: Network error');
+      expect(result.error).toContain('Treasury: Network error');
     });
   });
 
@@ -100,6 +141,21 @@ describe('DataFetcher', () => {
       expect(result.data).toBe('1000000'); // Normalized: 1000000000000 / 10^6
     });
 
+    it('should keep fractional amounts exactly', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          balances: [{ denom: MARS_TOKEN.denom, amount: '123456789012345670' }],
+          pagination: { next_key: null, total: '1' },
+        }),
+      } as Response);
+
+      const result = await dataFetcher.fetchWalletBalance('test-address');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('123456789012.34567'); // Trailing zero trimmed
+    });
+
     it('should return 0 when MARS token not found', async () => {
       const mockResponse = {
         balances: [
@@ -123,6 +179,55 @@ describe('DataFetcher', () => {
     });
   });
 
+  describe('fetchContractBalance', () => {
+    const contract: TrackedContract = {
+      address: 'neutron1staking',
+      label: 'Staking',
+      category: 'staked',
+      query: { total_staked: {} },
+      amount_path: 'total.amount',
+    };
+
+    it('should run the smart query and normalize the amount', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: { total: { amount: '300000000000000' } } }),
+      } as Response);
+
+      const result = await dataFetcher.fetchContractBalance(contract, 1000);
+
+      const query = Buffer.from('{"total_staked":{}}').toString('base64');
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${ENDPOINTS.NEUTRON_REST}/cosmwasm/wasm/v1/contract/neutron1staking/smart/${query}`,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'x-cosmos-block-height': '1000' }),
+        })
+      );
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('300000000');
+    });
+
+    it('should fail when the response has no amount at the path', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: { total: {} } }),
+      } as Response);
+
+      const result = await dataFetcher.fetchContractBalance(contract);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No amount at total.amount in query response');
+    });
+
+    it('should report no contract balances when none are configured', async () => {
+      const result = await dataFetcher.fetchContractBalances();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('fetchMarsPrice', () => {
     it('should fetch and return MARS price', async () => {
       const mockResponse = {
@@ -239,45 +344,350 @@ describe('DataFetcher', () => {
     });
   });
 
+  describe('fetchLiquidityPools', () => {
+    it('should break liquidity down per MARS pool, deepest first', async () => {
+      const mockPools = [
+        {
+          chainId: 'neutron-1',
+          poolAddress: 'pool1',
+          poolType: 'xyk',
+          assets: [
+            { denom: 'ibc/USDC', symbol: 'USDC', amount: '5000000000', decimals: 6 },
+            { denom: MARS_TOKEN.denom, symbol: 'MARS', amount: '25000000000', decimals: 6 },
+          ],
+          totalLiquidityUSD: 10000.456,
+          dayVolumeUSD: 1234.567,
+          dayLpFeesUSD: 3.7,
+        },
+        {
+          chainId: 'neutron-1',
+          poolAddress: 'pool2',
+          poolType: 'concentrated',
+          assets: [
+            { denom: MARS_TOKEN.denom, symbol: 'MARS', amount: '100000000000', decimals: 6 },
+            { denom: 'untrn', symbol: 'NTRN', amount: '40000000000', decimals: 6 },
+          ],
+          totalLiquidityUSD: 40000,
+          dayVolumeUSD: 0,
+          dayLpFeesUSD: 0,
+        },
+        {
+          chainId: 'neutron-1',
+          poolAddress: 'pool3',
+          poolType: 'xyk',
+          assets: [
+            { denom: 'token1', symbol: 'TOKEN1', amount: '1', decimals: 6 },
+            { denom: 'token2', symbol: 'TOKEN2', amount: '1', decimals: 6 },
+          ],
+          totalLiquidityUSD: 75000,
+          dayVolumeUSD: 0,
+          dayLpFeesUSD: 0,
+        },
+      ];
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockPools,
+      } as Response);
+
+      const result = await dataFetcher.fetchLiquidityPools();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        {
+          pool_address: 'pool2',
+          pair: 'MARS/NTRN',
+          pool_type: 'concentrated',
+          mars_amount: '100000',
+          mars_amount_raw: '100000000000',
+          total_liquidity_usd: 40000,
+          volume_24h_usd: 0,
+          lp_fees_24h_usd: 0,
+        },
+        {
+          pool_address: 'pool1',
+          pair: 'USDC/MARS',
+          pool_type: 'xyk',
+          mars_amount: '25000',
+          mars_amount_raw: '25000000000',
+          total_liquidity_usd: 10000.46,
+          volume_24h_usd: 1234.57,
+          lp_fees_24h_usd: 3.7,
+        },
+      ]);
+    });
+
+    it.each([
+      [
+        'a non-integer amount',
+        { denom: MARS_TOKEN.denom, symbol: 'MARS', amount: '2500.5', decimals: 6 },
+        'Astroport pool pool1 has an invalid MARS amount 2500.5',
+      ],
+      [
+        'more decimals than MARS',
+        { denom: 'ibc/MARS', symbol: 'MARS', amount: '25000000000000000000', decimals: 18 },
+        'Astroport pool pool1 has an unsupported MARS decimals 18',
+      ],
+    ])('should fail the metric for %s', async (_case, mars, error) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          {
+            chainId: 'neutron-1',
+            poolAddress: 'pool1',
+            poolType: 'xyk',
+            assets: [mars, { denom: 'untrn', symbol: 'NTRN', amount: '1', decimals: 6 }],
+            totalLiquidityUSD: 10000,
+            dayVolumeUSD: 0,
+            dayLpFeesUSD: 0,
+          },
+        ],
+      } as Response);
+
+      const result = await dataFetcher.fetchLiquidityPools();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(error);
+    });
+
+    it('should return an error when the pools cannot be fetched', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+      } as Response);
+
+      const result = await dataFetcher.fetchLiquidityPools();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('historical queries', () => {
+    const blockResponse = (height: number, time: string) =>
+      ({
+        ok: true,
+        json: async () => ({
+          block: { header: { height: String(height), time } },
+        }),
+      }) as Response;
+
+    it('should read balances at a block height', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          balances: [],
+          pagination: { next_key: null, total: '0' },
+        }),
+      } as Response);
+
+      await dataFetcher.fetchWalletBalance(WALLETS.BURN_ADDRESS, 1234);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'x-cosmos-block-height': '1234' }),
+        })
+      );
+    });
+
+    it('should find the last block at or before a timestamp', async () => {
+      // Blocks are ten seconds apart starting at height 1
+      const timeOf = (height: number) =>
+        new Date(Date.UTC(2025, 8, 1) + (height - 1) * 10000).toISOString();
+      mockFetch.mockImplementation(async (input) => {
+        const url = String(input);
+        const height = url.endsWith('/latest')
+          ? 100
+          : parseInt(url.split('/').pop()!, 10);
+        return blockResponse(height, timeOf(height));
+      });
+
+      const result = await dataFetcher.findBlockHeight(
+        new Date(Date.UTC(2025, 8, 1) + 425000).toISOString()
+      );
+
+      expect(result).toEqual({ success: true, data: 43 });
+    });
+
+    it('should return the latest block for timestamps after it', async () => {
+      mockFetch.mockResolvedValueOnce(
+        blockResponse(100, '2025-09-01T00:00:00.000Z')
+      );
+
+      const result = await dataFetcher.findBlockHeight(
+        '2025-09-02T00:00:00.000Z'
+      );
+
+      expect(result).toEqual({ success: true, data: 100 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should key historical prices by date using the last price of each day', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          prices: [
+            [Date.UTC(2025, 8, 11, 0), 0.1],
+            [Date.UTC(2025, 8, 11, 23), 0.12],
+            [Date.UTC(2025, 8, 12, 12), 0.13],
+          ],
+        }),
+      } as Response);
+
+      const result = await dataFetcher.fetchPriceHistory(
+        '2025-09-11',
+        '2025-09-12'
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${ENDPOINTS.COINGECKO_BASE}/coins/${COINGECKO_MARS_ID}/market_chart/range?vs_currency=usd&from=${
+          Date.UTC(2025, 8, 11) / 1000
+        }&to=${Date.UTC(2025, 8, 12, 23, 59, 59) / 1000}`,
+        expect.any(Object)
+      );
+      expect(result.data).toEqual({ '2025-09-11': 0.12, '2025-09-12': 0.13 });
+    });
+  });
+
+  describe('fetchConsensusPrice', () => {
+    const mockPrices = (prices: { coingecko?: number; astroport?: number; osmosis?: number }) =>
+      mockFetch.mockImplementation(async (input) => {
+        const url = String(input);
+        if (url.startsWith(ENDPOINTS.COINGECKO_BASE) && prices.coingecko) {
+          return {
+            ok: true,
+            json: async () => ({ market_data: { current_price: { usd: prices.coingecko } } }),
+          } as Response;
+        }
+        if (url.startsWith(ENDPOINTS.ASTROPORT_POOLS) && prices.astroport) {
+          return {
+            ok: true,
+            json: async () => [
+              {
+                assets: [{ denom: 'untrn', priceUSD: 0.4 }, { denom: MARS_TOKEN.denom, priceUSD: 0.01 }],
+                totalLiquidityUSD: 1000,
+              },
+              {
+                assets: [{ denom: MARS_TOKEN.denom, priceUSD: prices.astroport }],
+                totalLiquidityUSD: 100000,
+              },
+            ],
+          } as Response;
+        }
+        if (url.startsWith(ENDPOINTS.OSMOSIS_LCD) && prices.osmosis) {
+          return {
+            ok: true,
+            json: async () => ({ spot_price: String(prices.osmosis) }),
+          } as Response;
+        }
+        throw new Error('Unavailable');
+      });
+
+    it('should use the median of the quotes', async () => {
+      mockPrices({ coingecko: 0.15, astroport: 0.16 });
+
+      const result = await dataFetcher.fetchConsensusPrice();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.price_usd).toBeCloseTo(0.155);
+      // The deepest Astroport pool sets its quote
+      expect(result.data!.sources).toEqual({
+        method: 'median',
+        quotes: [
+          { source: 'coingecko', price_usd: 0.15 },
+          { source: 'astroport', price_usd: 0.16 },
+        ],
+      });
+    });
+
+    it('should use a single quote when the other sources fail', async () => {
+      mockPrices({ astroport: 0.16 });
+
+      const result = await dataFetcher.fetchConsensusPrice();
+
+      expect(result.data).toEqual({
+        price_usd: 0.16,
+        sources: {
+          method: 'single',
+          quotes: [
+            { source: 'coingecko', error: 'Unavailable' },
+            { source: 'astroport', price_usd: 0.16 },
+          ],
+        },
+      });
+    });
+
+    it('should reject an outlier among three sources', async () => {
+      process.env.OSMOSIS_MARS_POOL_ID = '1';
+      process.env.OSMOSIS_MARS_DENOM = 'ibc/MARS';
+      process.env.OSMOSIS_QUOTE_DENOM = 'ibc/USDC';
+      let fetcher: typeof dataFetcher;
+      jest.isolateModules(() => {
+        fetcher = require('../dataFetcher').dataFetcher;
+      });
+      delete process.env.OSMOSIS_MARS_POOL_ID;
+      delete process.env.OSMOSIS_MARS_DENOM;
+      delete process.env.OSMOSIS_QUOTE_DENOM;
+      mockPrices({ coingecko: 0.3, astroport: 0.16, osmosis: 0.15 });
+
+      const result = await fetcher!.fetchConsensusPrice();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${ENDPOINTS.OSMOSIS_LCD}/osmosis/poolmanager/v2/pools/1/prices?base_asset_denom=ibc%2FMARS&quote_asset_denom=ibc%2FUSDC`,
+        expect.any(Object)
+      );
+      expect(result.data!.price_usd).toBeCloseTo(0.155);
+      expect(result.data!.sources.quotes).toEqual([
+        { source: 'coingecko', price_usd: 0.3, rejected: true },
+        { source: 'astroport', price_usd: 0.16 },
+        { source: 'osmosis', price_usd: 0.15 },
+      ]);
+    });
+  });
+
   describe('fetchAllData', () => {
     it('should fetch all data successfully', async () => {
-      // Mock all API calls
-      mockFetch
-        // Total supply
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => '1000000000',
-        } as Response)
-        // Circulating supply
-        .mockResolvedValueOnce({
-          ok: true,
-          text: async () => '800000000',
-        } as Response)
-        // Burned supply (wallet balance)
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({
-            balances: [{ denom: MARS_TOKEN.denom, amount: '50000000000' }],
-            pagination: { next_key: null, total: '1' },
-          }),
-        } as Response)
-        // Treasury supply (wallet balance)
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({
-            balances: [{ denom: MARS_TOKEN.denom, amount: '150000000000' }],
-            pagination: { next_key: null, total: '1' },
-          }),
-        } as Response)
+      mockFetch.mockImplementation(async (input) => {
+        const url = String(input);
+        // Total supply (bank module)
+        if (url.includes('/supply/by_denom')) {
+          return {
+            ok: true,
+            json: async () => ({
+              amount: { denom: MARS_TOKEN.denom, amount: '1000000000000000' },
+            }),
+          } as Response;
+        }
+        // Burned and treasury supply (wallet balances)
+        if (url.includes('/balances/')) {
+          return {
+            ok: true,
+            json: async () => ({
+              balances: [
+                {
+                  denom: MARS_TOKEN.denom,
+                  amount: url.includes(WALLETS.BURN_ADDRESS)
+                    ? '50000000000'
+                    : '150000000000',
+                },
+              ],
+              pagination: { next_key: null, total: '1' },
+            }),
+          } as Response;
+        }
         // Price
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({
-            market_data: { current_price: { usd: 0.15 } },
-          }),
-        } as Response)
-        // Liquidity
-        .mockResolvedValueOnce({
+        if (url.startsWith(ENDPOINTS.COINGECKO_BASE)) {
+          return {
+            ok: true,
+            json: async () => ({
+              market_data: { current_price: { usd: 0.15 } },
+            }),
+          } as Response;
+        }
+        // Liquidity, without a price quote
+        return {
           ok: true,
           json: async () => [
             {
@@ -285,31 +695,158 @@ describe('DataFetcher', () => {
               totalLiquidityUSD: 100000,
             },
           ],
-        } as Response);
+        } as Response;
+      });
 
       const result = await dataFetcher.fetchAllData();
 
-      expect(result.success).toBe(true);
+      expect(result.failedMetrics).toEqual([]);
       expect(result.data).toMatchObject({
         date: expect.any(String),
         total_supply: '1000000000',
-        circulating_supply: '800000000',
+        circulating_supply: '999800000', // total - burned - treasury
         burned_supply: '50000',
         treasury_supply: '150000',
         price_usd: 0.15,
         on_chain_liquidity_usd: 100000,
         total_supply_usd: 150000000, // 1000000000 * 0.15
-        circulating_supply_usd: 120000000, // 800000000 * 0.15
+        circulating_supply_usd: 149970000, // 999800000 * 0.15
+        category_totals: { burn: '50000', treasury: '150000' },
+      });
+      expect(result.data!.address_balances).toHaveLength(2);
+      expect(result.responses).toHaveLength(5);
+      expect(result.responses).toContainEqual({
+        url: expect.stringContaining('/supply/by_denom'),
+        fetched_at: expect.any(String),
+        body: {
+          amount: { denom: MARS_TOKEN.denom, amount: '1000000000000000' },
+        },
       });
     });
 
-    it('should fail when any data fetch fails', async () => {
+    it('should keep the responses of overlapping runs apart', async () => {
+      mockFetch.mockImplementation(
+        async (input) =>
+          ({
+            ok: true,
+            json: async () =>
+              String(input).startsWith(ENDPOINTS.ASTROPORT_POOLS)
+                ? []
+                : { balances: [] },
+          } as Response)
+      );
+
+      const [first, second] = await Promise.all([
+        dataFetcher.fetchAllData(),
+        dataFetcher.fetchAllData(),
+      ]);
+
+      expect(first.responses.length).toBeGreaterThan(0);
+      expect(second.responses).toHaveLength(first.responses.length);
+      for (const { responses } of [first, second]) {
+        expect(
+          responses.filter((response) =>
+            response.url.includes('/supply/by_denom')
+          )
+        ).toHaveLength(1);
+      }
+    });
+
+    it('should report every metric as failed when all fetches fail', async () => {
       mockFetch.mockRejectedValue(new Error('Network error'));
 
       const result = await dataFetcher.fetchAllData();
 
-      expect(result.success).toBe(false);
-      expect(result.error).toContain('Failed to fetch');
+      expect(result.responses).toEqual([]);
+
+      expect(result.failedMetrics).toEqual([
+        'total_supply',
+        'address_balances',
+        'price_usd',
+        'on_chain_liquidity_usd',
+      ]);
+      expect(result.metrics.price_usd.error).toBe(
+        'coingecko: Network error, astroport: Network error'
+      );
+      // No contracts are configured, so there is nothing to fail for them
+      expect(result.data).toEqual({
+        date: expect.any(String),
+        updated_at: expect.any(String),
+        contract_balances: [],
+        staked_supply: '0',
+        vesting_supply: '0',
+        provenance: expect.any(Object),
+      });
+      expect(result.data.provenance!.price_usd).toEqual({
+        source: 'consensus',
+        fetched_at: expect.any(String),
+        attempts: 3,
+        warnings: [
+          'Fetch failed: coingecko: Network error, astroport: Network error',
+        ],
+      });
+    });
+
+    it('should keep the metrics that succeeded when one fails', async () => {
+      mockFetch.mockImplementation(async (input) => {
+        const url = String(input);
+        if (url.includes('/supply/by_denom')) {
+          return {
+            ok: true,
+            json: async () => ({
+              amount: { denom: MARS_TOKEN.denom, amount: '1000000000000000' },
+            }),
+          } as Response;
+        }
+        if (url.includes('/balances/')) {
+          return {
+            ok: true,
+            json: async () => ({
+              balances: [{ denom: MARS_TOKEN.denom, amount: '50000000000' }],
+              pagination: { next_key: null, total: '1' },
+            }),
+          } as Response;
+        }
+        if (url.startsWith(ENDPOINTS.ASTROPORT_POOLS)) {
+          return {
+            ok: true,
+            json: async () => [
+              {
+                assets: [{ denom: MARS_TOKEN.denom, symbol: 'MARS' }],
+                totalLiquidityUSD: 100000,
+              },
+            ],
+          } as Response;
+        }
+        throw new Error('Rate limited');
+      });
+
+      const result = await dataFetcher.fetchAllData();
+
+      expect(result.failedMetrics).toEqual(['price_usd']);
+      expect(result.metrics.price_usd.error).toBe(
+        'coingecko: Rate limited, astroport: No MARS price in Astroport pools'
+      );
+      expect(result.data).toMatchObject({
+        total_supply: '1000000000',
+        burned_supply: '50000',
+        treasury_supply: '50000',
+        on_chain_liquidity_usd: 100000,
+      });
+      expect(result.data.price_usd).toBeUndefined();
+      expect(result.data.circulating_supply).toBeUndefined();
+      expect(result.data.provenance).toMatchObject({
+        total_supply: { source: 'neutron-rest', attempts: 1, warnings: [] },
+        address_balances: { source: 'neutron-rest', attempts: 1, warnings: [] },
+        price_usd: {
+          source: 'consensus',
+          attempts: 3,
+          warnings: [
+            'Fetch failed: coingecko: Rate limited, astroport: No MARS price in Astroport pools',
+          ],
+        },
+        on_chain_liquidity_usd: { source: 'astroport', attempts: 1, warnings: [] },
+      });
     });
   });
 });
@@ -0,0 +1,74 @@
+import { exportService } from "../exportService";
+
+describe("ExportService", () => {
+  const createMockData = (
+    overrides: Partial<AggregatedTokenomicsData> = {}
+  ): AggregatedTokenomicsData => ({
+    date: "2025-09-12",
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000.456,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+    ...overrides,
+  });
+
+  describe("resolveFormat", () => {
+    it("should prefer the format parameter over the Accept header", () => {
+      expect(exportService.resolveFormat("json", "text/csv")).toBe("json");
+    });
+
+    it("should negotiate from the Accept header", () => {
+      expect(exportService.resolveFormat(undefined, "text/csv")).toBe("csv");
+      expect(
+        exportService.resolveFormat(undefined, "application/ndjson")
+      ).toBe("ndjson");
+      expect(exportService.resolveFormat(undefined, "*/*")).toBe("json");
+      expect(exportService.resolveFormat(undefined, undefined)).toBe("json");
+    });
+
+    it("should reject unsupported formats", () => {
+      expect(exportService.resolveFormat("xml", undefined)).toBeNull();
+    });
+  });
+
+  describe("toCsv", () => {
+    it("should include aggregated columns when present", () => {
+      const csv = exportService.toCsv([
+        createMockData({
+          price_ohlc: { open: 0.1, high: 0.2, low: 0.1, close: 0.15 },
+          liquidity_range: { min: 90000, max: 110000 },
+        }),
+      ]);
+
+      const [header, row] = csv.trim().split("\n");
+      expect(header.split(",")).toEqual([
+        "date",
+        "burned_supply",
+        "burned_supply_usd",
+        "treasury_supply",
+        "treasury_supply_usd",
+        "price_usd",
+        "on_chain_liquidity_usd",
+        "price_open",
+        "price_high",
+        "price_low",
+        "price_close",
+        "on_chain_liquidity_min_usd",
+        "on_chain_liquidity_max_usd",
+      ]);
+      expect(row).toBe(
+        "2025-09-12,50000000,7500000,150000000,22500000,0.15,100000.46,0.1,0.2,0.1,0.15,90000,110000"
+      );
+    });
+
+    it("should quote values containing separators", () => {
+      const csv = exportService.toCsv([
+        createMockData({ burned_supply: '1,000 "MARS"' }),
+      ]);
+
+      expect(csv).toContain('"1,000 ""MARS"""');
+    });
+  });
+});
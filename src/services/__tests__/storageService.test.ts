@@ -0,0 +1,799 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { BlobNotFoundError, head, list } from "@vercel/blob";
+import {
+  FilesystemBackend,
+  MemoryBackend,
+  VercelBlobBackend,
+} from "../storage";
+import { StorageService } from "../storageService";
+import { migrateRecord } from "../../utils/migrations";
+
+jest.mock("@vercel/blob", () => ({
+  BlobNotFoundError: jest.requireActual("@vercel/blob").BlobNotFoundError,
+  head: jest.fn(),
+  list: jest.fn(),
+  put: jest.fn(),
+}));
+
+const mockHead = head as jest.MockedFunction<typeof head>;
+const mockList = list as jest.MockedFunction<typeof list>;
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+describe("StorageService", () => {
+  const createRecord = (date: string): DailyTokenomicsData => ({
+    date,
+    burned_supply: "50000000",
+    treasury_supply: "150000000",
+    price_usd: 0.15,
+    on_chain_liquidity_usd: 100000,
+    burned_supply_usd: 7500000,
+    treasury_supply_usd: 22500000,
+  });
+
+  let backend: MemoryBackend;
+  let service: StorageService;
+
+  beforeEach(() => {
+    backend = new MemoryBackend();
+    service = new StorageService(backend);
+  });
+
+  it("should store a record under its daily file name", async () => {
+    const result = await service.storeData(createRecord("2025-09-12"));
+
+    expect(result).toEqual({
+      success: true,
+      data: "memory://daily-data-2025-09-12.json",
+    });
+    expect(await service.dataExistsForDate("2025-09-12")).toBe(true);
+    expect(await service.dataExistsForDate("2025-09-11")).toBe(false);
+  });
+
+  it("should read back a stored record with its timestamp", async () => {
+    await service.storeData(createRecord("2025-09-12"));
+
+    const result = await service.getData("2025-09-12");
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      ...createRecord("2025-09-12"),
+      updated_at: expect.any(String),
+    });
+  });
+
+  it("should report missing dates", async () => {
+    const result = await service.getData("2025-09-12");
+
+    expect(result).toEqual({
+      success: false,
+      error: "No data found for date: 2025-09-12",
+      notFound: true,
+    });
+  });
+
+  it("should return ranges newest first", async () => {
+    for (const date of ["2025-09-10", "2025-09-12", "2025-09-11"]) {
+      await service.storeData(createRecord(date));
+    }
+    // Unrelated keys sharing the prefix are ignored
+    await backend.write("daily-data-notes.txt", "");
+
+    const latest = await service.getLatestData();
+    const lastTwo = await service.getDataRange(2);
+    const range = await service.getDataByDateRange("2025-09-10", "2025-09-11");
+    const dates = await service.getStoredDates();
+
+    expect(latest.data!.date).toBe("2025-09-12");
+    expect(lastTwo.data!.map((d) => d.date)).toEqual([
+      "2025-09-12",
+      "2025-09-11",
+    ]);
+    expect(range.data!.map((d) => d.date)).toEqual([
+      "2025-09-11",
+      "2025-09-10",
+    ]);
+    expect(dates.data).toEqual(["2025-09-10", "2025-09-11", "2025-09-12"]);
+  });
+
+  describe("monthly history", () => {
+    it("should keep a history file per month up to date on store", async () => {
+      await service.storeData(createRecord("2025-09-12"));
+      await service.storeData(createRecord("2025-09-11"));
+      await service.storeData({
+        ...createRecord("2025-09-12"),
+        price_usd: 0.2,
+      });
+      await service.storeData(createRecord("2025-10-01"));
+
+      const september: MonthlyHistory = JSON.parse(
+        (await backend.read("history-2025-09.json"))!
+      );
+      expect(september.month).toBe("2025-09");
+      expect(september.records.map((d) => [d.date, d.price_usd])).toEqual([
+        ["2025-09-11", 0.15],
+        ["2025-09-12", 0.2],
+      ]);
+      expect(await backend.exists("history-2025-10.json")).toBe(true);
+    });
+
+    it("should read ranges from history files instead of daily files", async () => {
+      for (const date of ["2025-09-11", "2025-09-12", "2025-10-01"]) {
+        await service.storeData(createRecord(date));
+      }
+      const readSpy = jest.spyOn(backend, "read");
+
+      const result = await service.getAllData();
+
+      expect(result.data!.map((d) => d.date)).toEqual([
+        "2025-10-01",
+        "2025-09-12",
+        "2025-09-11",
+      ]);
+      expect(readSpy.mock.calls.map(([key]) => key).sort()).toEqual([
+        "history-2025-09.json",
+        "history-2025-10.json",
+      ]);
+    });
+
+    it("should not list daily files for days covered by the history", async () => {
+      for (const date of ["2025-09-10", "2025-09-11", "2025-09-12"]) {
+        await service.storeData(createRecord(date));
+      }
+      const listSpy = jest.spyOn(backend, "list");
+
+      const result = await service.getDataByDateRange(
+        "2025-09-10",
+        "2025-09-12"
+      );
+
+      expect(result.data!.map((d) => d.date)).toEqual([
+        "2025-09-12",
+        "2025-09-11",
+        "2025-09-10",
+      ]);
+      expect(listSpy.mock.calls.map(([prefix]) => prefix)).toEqual([
+        "history",
+      ]);
+    });
+
+    it("should only list the daily files of months the history lacks days of", async () => {
+      await service.storeData(createRecord("2025-08-31"));
+      await service.storeData(createRecord("2025-09-11"));
+      const listSpy = jest.spyOn(backend, "list");
+
+      const result = await service.getDataByDateRange(
+        "2025-08-31",
+        "2025-09-30"
+      );
+
+      expect(result.data!.map((d) => d.date)).toEqual([
+        "2025-09-11",
+        "2025-08-31",
+      ]);
+      expect(listSpy.mock.calls.map(([prefix]) => prefix)).toEqual([
+        "history",
+        "daily-data-2025-09",
+      ]);
+    });
+
+    it("should fall back to daily files missing from the history", async () => {
+      // Stored before history files existed
+      await backend.write(
+        "daily-data-2025-09-10.json",
+        JSON.stringify(createRecord("2025-09-10"))
+      );
+      await service.storeData(createRecord("2025-09-11"));
+
+      const result = await service.getDataRange(30);
+
+      expect(result.data!.map((d) => d.date)).toEqual([
+        "2025-09-11",
+        "2025-09-10",
+      ]);
+    });
+
+    describe("with daily files stored before history files existed", () => {
+      const legacyDates = [
+        "2025-08-28",
+        "2025-08-29",
+        "2025-08-30",
+        "2025-08-31",
+      ];
+
+      beforeEach(async () => {
+        for (const date of legacyDates) {
+          await backend.write(
+            `daily-data-${date}.json`,
+            JSON.stringify(createRecord(date))
+          );
+        }
+      });
+
+      it("should build every month's history on the first history write", async () => {
+        await service.storeData(createRecord("2025-09-01"));
+
+        expect(await backend.exists("history-2025-08.json")).toBe(true);
+        const all = await service.getAllData();
+        const lastThirty = await service.getDataRange(30);
+        const range = await service.getDataByDateRange(
+          "2025-08-01",
+          "2025-09-01"
+        );
+        for (const result of [all, lastThirty, range]) {
+          expect(result.data!.map((d) => d.date)).toEqual([
+            "2025-09-01",
+            ...[...legacyDates].reverse(),
+          ]);
+        }
+      });
+
+      it("should read months before the earliest history file from their daily files", async () => {
+        // History written for a later month only, without a rebuild
+        await backend.write(
+          "daily-data-2025-09-01.json",
+          JSON.stringify(createRecord("2025-09-01"))
+        );
+        await backend.write(
+          "history-2025-09.json",
+          JSON.stringify({
+            month: "2025-09",
+            records: [createRecord("2025-09-01")],
+            updated_at: "2025-09-01T23:00:00.000Z",
+          })
+        );
+
+        const all = await service.getAllData();
+        const lastTwo = await service.getDataRange(2);
+        const range = await service.getDataByDateRange(
+          "2025-08-30",
+          "2025-09-01"
+        );
+
+        expect(all.data!.map((d) => d.date)).toEqual([
+          "2025-09-01",
+          ...[...legacyDates].reverse(),
+        ]);
+        expect(lastTwo.data!.map((d) => d.date)).toEqual([
+          "2025-09-01",
+          "2025-08-31",
+        ]);
+        expect(range.data!.map((d) => d.date)).toEqual([
+          "2025-09-01",
+          "2025-08-31",
+          "2025-08-30",
+        ]);
+      });
+    });
+
+    it("should rebuild history files from the daily files", async () => {
+      await backend.write(
+        "daily-data-2025-08-31.json",
+        JSON.stringify(createRecord("2025-08-31"))
+      );
+      await backend.write(
+        "daily-data-2025-09-01.json",
+        JSON.stringify(createRecord("2025-09-01"))
+      );
+
+      const result = await service.rebuildHistory();
+
+      expect(result).toEqual({ success: true, data: ["2025-08", "2025-09"] });
+      const august: MonthlyHistory = JSON.parse(
+        (await backend.read("history-2025-08.json"))!
+      );
+      expect(august.records).toEqual([
+        migrateRecord(createRecord("2025-08-31")),
+      ]);
+    });
+
+    it("should report a failed history update", async () => {
+      const read = backend.read.bind(backend);
+      jest
+        .spyOn(backend, "read")
+        .mockImplementation(async (key) =>
+          key.startsWith("history-")
+            ? Promise.reject(new Error("Service unavailable"))
+            : read(key)
+        );
+
+      const result = await service.storeData(createRecord("2025-09-12"));
+
+      expect(result).toEqual({
+        success: false,
+        error:
+          "Stored daily-data-2025-09-12.json but failed to update its monthly history: Service unavailable",
+      });
+    });
+  });
+
+  it("should fail when storage is empty", async () => {
+    const result = await service.getAllData();
+
+    expect(result).toEqual({
+      success: false,
+      error: "No data found in storage",
+    });
+  });
+
+  it("should reject malformed dates", async () => {
+    const result = await service.getData("2025-9-12");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Invalid date: 2025-9-12",
+    });
+  });
+
+  it("should reject a record stored under the wrong date", async () => {
+    await backend.write(
+      "daily-data-2025-09-12.json",
+      JSON.stringify(createRecord("2025-09-11"))
+    );
+
+    const result = await service.getData("2025-09-12");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Stored record for 2025-09-12 is dated 2025-09-11",
+    });
+  });
+
+  describe("schema migration", () => {
+    // Stored before schema versioning, updated_at and category totals
+    const writeLegacyRecord = (date: string) =>
+      backend.write(
+        `daily-data-${date}.json`,
+        JSON.stringify(createRecord(date))
+      );
+
+    it("should upgrade legacy records on read", async () => {
+      await writeLegacyRecord("2025-09-12");
+
+      const result = await service.getData("2025-09-12");
+
+      expect(result.data).toEqual({
+        ...createRecord("2025-09-12"),
+        schema_version: 2,
+        category_totals: { burn: "50000000", treasury: "150000000" },
+        updated_at: "2025-09-12T00:00:00.000Z",
+      });
+    });
+
+    it("should stamp new records with the current schema version", async () => {
+      await service.storeData(createRecord("2025-09-12"));
+
+      const stored = JSON.parse(
+        (await backend.read("daily-data-2025-09-12.json"))!
+      );
+      expect(stored.schema_version).toBe(2);
+    });
+
+    it("should reject records from a newer schema version", async () => {
+      await backend.write(
+        "daily-data-2025-09-12.json",
+        JSON.stringify({ ...createRecord("2025-09-12"), schema_version: 3 })
+      );
+
+      const result = await service.getData("2025-09-12");
+
+      expect(result).toEqual({
+        success: false,
+        error:
+          "Record for 2025-09-12 has schema version 3, newer than supported version 2",
+      });
+    });
+
+    it("should rewrite legacy daily files in place", async () => {
+      await writeLegacyRecord("2025-09-11");
+      await service.storeData(createRecord("2025-09-12"));
+
+      const dryRun = await service.migrateStoredData({ dryRun: true });
+      expect(dryRun.data).toEqual(["2025-09-11"]);
+      expect(
+        JSON.parse((await backend.read("daily-data-2025-09-11.json"))!)
+      ).toEqual(createRecord("2025-09-11"));
+
+      const result = await service.migrateStoredData();
+
+      expect(result).toEqual({ success: true, data: ["2025-09-11"] });
+      expect(
+        JSON.parse((await backend.read("daily-data-2025-09-11.json"))!)
+      ).toMatchObject({ schema_version: 2 });
+      const september: MonthlyHistory = JSON.parse(
+        (await backend.read("history-2025-09.json"))!
+      );
+      expect(september.records.map((d) => d.date)).toEqual([
+        "2025-09-11",
+        "2025-09-12",
+      ]);
+      expect((await service.migrateStoredData()).data).toEqual([]);
+    });
+  });
+
+  describe("revisions", () => {
+    it("should keep the replaced record when a day is overwritten", async () => {
+      const original = {
+        ...createRecord("2025-09-12"),
+        updated_at: "2025-09-12T10:00:00.000Z",
+      };
+      await service.storeData(original);
+      await service.storeData({
+        ...original,
+        on_chain_liquidity_usd: 90000,
+        updated_at: "2025-09-12T11:00:00.000Z",
+      });
+
+      const result = await service.getRevisions("2025-09-12");
+
+      expect(result.data).toEqual([
+        {
+          revision: 1,
+          replaced_at: "2025-09-12T11:00:00.000Z",
+          changes: [
+            { field: "on_chain_liquidity_usd", previous: 100000, next: 90000 },
+          ],
+          data: { ...original, schema_version: 2 },
+        },
+      ]);
+      expect((await service.getData("2025-09-12")).data).toMatchObject({
+        on_chain_liquidity_usd: 90000,
+      });
+    });
+
+    it("should not log writes that only change timestamps", async () => {
+      await service.storeData(createRecord("2025-09-12"));
+      await service.storeData(createRecord("2025-09-12"));
+
+      const result = await service.getRevisions("2025-09-12");
+
+      expect(result.data).toEqual([]);
+    });
+
+    it("should not overwrite a day whose revision cannot be saved", async () => {
+      await service.storeData(createRecord("2025-09-12"));
+      const write = backend.write.bind(backend);
+      jest
+        .spyOn(backend, "write")
+        .mockImplementation(async (key, body) =>
+          key.startsWith("revisions-")
+            ? Promise.reject(new Error("Service unavailable"))
+            : write(key, body)
+        );
+
+      const result = await service.storeData({
+        ...createRecord("2025-09-12"),
+        price_usd: 0.2,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error:
+          "Failed to save the previous revision of daily-data-2025-09-12.json: Service unavailable",
+      });
+      expect((await service.getData("2025-09-12")).data!.price_usd).toBe(0.15);
+    });
+
+    it("should report a missing revision as not found", async () => {
+      const result = await service.getRevision("2025-09-12", 1);
+
+      expect(result).toEqual({
+        success: false,
+        error: "No revision 1 found for date: 2025-09-12",
+        notFound: true,
+      });
+    });
+  });
+
+  describe("hourly snapshots", () => {
+    const createSnapshot = (
+      timestamp: string,
+      price_usd = 0.15
+    ): HourlySnapshot => ({
+      timestamp,
+      price_usd,
+      on_chain_liquidity_usd: 100000,
+    });
+
+    it("should keep one snapshot per hour in a daily file", async () => {
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-12T10:00:00.000Z")
+      );
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-12T09:00:00.000Z")
+      );
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-12T10:00:00.000Z", 0.16)
+      );
+
+      const file: HourlySnapshotFile = JSON.parse(
+        (await backend.read("hourly-data-2025-09-12.json"))!
+      );
+      expect(file.snapshots).toEqual([
+        createSnapshot("2025-09-12T09:00:00.000Z"),
+        createSnapshot("2025-09-12T10:00:00.000Z", 0.16),
+      ]);
+    });
+
+    it("should return snapshots across days, newest first", async () => {
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-11T23:00:00.000Z")
+      );
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-13T01:00:00.000Z")
+      );
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-14T01:00:00.000Z")
+      );
+
+      const result = await service.getHourlySnapshots(
+        "2025-09-11",
+        "2025-09-13"
+      );
+
+      expect(result.data!.map((snapshot) => snapshot.timestamp)).toEqual([
+        "2025-09-13T01:00:00.000Z",
+        "2025-09-11T23:00:00.000Z",
+      ]);
+    });
+
+    it("should not list hourly files as stored days", async () => {
+      await service.storeHourlySnapshot(
+        createSnapshot("2025-09-12T10:00:00.000Z")
+      );
+
+      const result = await service.getStoredDates();
+
+      expect(result.data).toEqual([]);
+    });
+  });
+
+  describe("treasury events", () => {
+    const createEvent = (
+      date: string,
+      delta = "-2000000"
+    ): TreasuryOutflowEvent => ({
+      type: "treasury_outflow",
+      date,
+      previous_date: "2025-09-11",
+      previous_amount: "150000000",
+      amount: "148000000",
+      delta,
+      delta_usd: -300000,
+      threshold: "1000000",
+      addresses: [],
+      detected_at: `${date}T10:00:00.000Z`,
+    });
+
+    it("should keep one event per day in a monthly file", async () => {
+      await service.storeTreasuryEvent(createEvent("2025-09-12"));
+      await service.storeTreasuryEvent(createEvent("2025-09-03"));
+      await service.storeTreasuryEvent(createEvent("2025-09-12", "-3000000"));
+
+      const file: TreasuryEventFile = JSON.parse(
+        (await backend.read("treasury-events-2025-09.json"))!
+      );
+      expect(file.events).toEqual([
+        createEvent("2025-09-03"),
+        createEvent("2025-09-12", "-3000000"),
+      ]);
+    });
+
+    it("should return events across months, newest first", async () => {
+      await service.storeTreasuryEvent(createEvent("2025-08-30"));
+      await service.storeTreasuryEvent(createEvent("2025-09-12"));
+      await service.storeTreasuryEvent(createEvent("2025-10-02"));
+
+      const result = await service.getTreasuryEvents(
+        "2025-08-31",
+        "2025-10-02"
+      );
+
+      expect(result.data!.map((event) => event.date)).toEqual([
+        "2025-10-02",
+        "2025-09-12",
+      ]);
+    });
+  });
+
+  describe("quarantine", () => {
+    const quarantine = (date: string, price: number) =>
+      service.storeQuarantinedRecord({
+        date,
+        quarantined_at: `${date}T10:00:00.000Z`,
+        data: { ...createRecord(date), price_usd: price },
+        responses: [
+          {
+            url: "https://api.coingecko.com/api/v3/coins/mars",
+            fetched_at: `${date}T09:59:59.000Z`,
+            body: { market_data: { current_price: { usd: price } } },
+          },
+        ],
+        errors: ["Extreme price change: 100.00% (max: ±50%)"],
+        warnings: [],
+        findings: [],
+        invalid_fields: ["price_usd"],
+      });
+
+    it("should number the rejected records of a day", async () => {
+      await quarantine("2025-09-12", 0.3);
+      const second = await quarantine("2025-09-12", 0.31);
+
+      expect(second.data).toMatchObject({ entry: 2, status: "pending" });
+      const log: QuarantineLog = JSON.parse(
+        (await backend.read("quarantine-2025-09-12.json"))!
+      );
+      expect(log.entries.map((entry) => entry.data.price_usd)).toEqual([
+        0.3, 0.31,
+      ]);
+    });
+
+    it("should return entries in range, newest first", async () => {
+      await quarantine("2025-09-10", 0.3);
+      await quarantine("2025-09-12", 0.3);
+      await quarantine("2025-09-12", 0.31);
+      await quarantine("2025-09-14", 0.3);
+
+      const result = await service.getQuarantinedRecords(
+        "2025-09-11",
+        "2025-09-13"
+      );
+
+      expect(result.data!.map((entry) => [entry.date, entry.entry])).toEqual([
+        ["2025-09-12", 2],
+        ["2025-09-12", 1],
+      ]);
+    });
+
+    it("should not list quarantine files as stored days", async () => {
+      await quarantine("2025-09-12", 0.3);
+
+      const result = await service.getStoredDates();
+
+      expect(result.data).toEqual([]);
+    });
+
+    it("should promote an approved entry to the stored record", async () => {
+      await service.storeData(createRecord("2025-09-12"));
+      await quarantine("2025-09-12", 0.3);
+
+      const result = await service.approveQuarantinedRecord("2025-09-12", 1);
+
+      expect(result.data).toMatchObject({
+        status: "approved",
+        approved_at: expect.any(String),
+      });
+      expect((await service.getData("2025-09-12")).data).toMatchObject({
+        price_usd: 0.3,
+      });
+      expect((await service.getRevisions("2025-09-12")).data).toHaveLength(1);
+      expect(
+        (await service.getQuarantinedRecord("2025-09-12", 1)).data!.status
+      ).toBe("approved");
+    });
+
+    it("should report a missing entry as not found", async () => {
+      const result = await service.approveQuarantinedRecord("2025-09-12", 1);
+
+      expect(result.success).toBe(false);
+      expect(result.notFound).toBe(true);
+    });
+  });
+
+  describe("with the Vercel Blob backend", () => {
+    const blobUrl =
+      "https://abc123.public.blob.vercel-storage.com/daily-data-2025-09-12.json";
+
+    beforeEach(() => {
+      service = new StorageService(new VercelBlobBackend());
+    });
+
+    it("should fetch a single day from the URL returned by head", async () => {
+      mockHead.mockResolvedValue({ url: blobUrl } as Awaited<
+        ReturnType<typeof head>
+      >);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify(createRecord("2025-09-12")),
+      } as Response);
+
+      const result = await service.getData("2025-09-12");
+
+      expect(mockHead).toHaveBeenCalledWith("daily-data-2025-09-12.json");
+      expect(mockFetch).toHaveBeenCalledWith(blobUrl, { cache: "no-store" });
+      expect(result.data).toEqual(migrateRecord(createRecord("2025-09-12")));
+    });
+
+    it("should report a missing blob as not found", async () => {
+      mockHead.mockRejectedValue(new BlobNotFoundError());
+
+      const result = await service.getData("2025-09-12");
+
+      expect(result).toEqual({
+        success: false,
+        error: "No data found for date: 2025-09-12",
+        notFound: true,
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should not treat other Blob errors as a missing blob", async () => {
+      mockHead.mockRejectedValue(new Error("Vercel Blob: Too many requests"));
+
+      const result = await service.storeData(createRecord("2025-09-12"));
+
+      expect(result).toEqual({
+        success: false,
+        error: "Vercel Blob: Too many requests",
+      });
+      await expect(
+        new VercelBlobBackend().exists("daily-data-2025-09-12.json")
+      ).rejects.toThrow("Too many requests");
+    });
+
+    it("should report a Blob outage as an error, not as not found", async () => {
+      mockHead.mockRejectedValue(new Error("Vercel Blob: Service unavailable"));
+
+      const result = await service.getData("2025-09-12");
+
+      expect(result).toEqual({
+        success: false,
+        error: "Vercel Blob: Service unavailable",
+      });
+    });
+
+    it("should reuse URLs from listings instead of calling head", async () => {
+      // Stored before history files existed
+      mockList.mockImplementation(
+        async (options) =>
+          ({
+            blobs: "daily-data".startsWith(options!.prefix!)
+              ? [{ pathname: "daily-data-2025-09-12.json", url: blobUrl }]
+              : [],
+            cursor: undefined,
+            hasMore: false,
+          } as unknown as Awaited<ReturnType<typeof list>>)
+      );
+      mockHead.mockRejectedValue(new BlobNotFoundError());
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify(createRecord("2025-09-12")),
+      } as Response);
+
+      const result = await service.getLatestData();
+
+      expect(result.data!.date).toBe("2025-09-12");
+      expect(mockHead).not.toHaveBeenCalledWith("daily-data-2025-09-12.json");
+    });
+  });
+
+  describe("with the filesystem backend", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), "mars-tokenomics-"));
+      service = new StorageService(
+        new FilesystemBackend(path.join(directory, "data"))
+      );
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should persist records as JSON files", async () => {
+      expect((await service.getStoredDates()).data).toEqual([]);
+
+      const stored = await service.storeData(createRecord("2025-09-12"));
+      const result = await service.getAllData();
+
+      expect(stored.data).toBe(
+        path.join(directory, "data", "daily-data-2025-09-12.json")
+      );
+      expect(result.data!.map((d) => d.date)).toEqual(["2025-09-12"]);
+    });
+  });
+});
@@ -1,5 +1,14 @@
 import { VALIDATION_THRESHOLDS } from "../../config/constants";
 import { validationService } from "../validationService";
+import { addDays } from "../../utils/date";
+import { applyUsdValues } from "../../utils/tokenomics";
+
+// Mock the storage service so fallback lookups never reach blob storage
+jest.mock("../storageService", () => ({
+  storageService: {
+    getData: jest.fn(),
+  },
+}));
 
 describe("ValidationService", () => {
   const createMockData = (
@@ -60,7 +69,7 @@ describe("ValidationService", () => {
       const result = await validationService.validateData(data);
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
+      expect(result.errors).toContainEqual(
         expect.stringContaining("Total supply too low")
       );
     });
@@ -73,7 +82,7 @@ describe("ValidationService", () => {
       const result = await validationService.validateData(data);
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
+      expect(result.errors).toContainEqual(
         expect.stringContaining("Total supply too high")
       );
     });
@@ -86,7 +95,7 @@ describe("ValidationService", () => {
       const result = await validationService.validateData(data);
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
+      expect(result.errors).toContainEqual(
         expect.stringContaining("Circulating supply")
       );
     });
@@ -99,7 +108,7 @@ describe("ValidationService", () => {
       const result = await validationService.validateData(data);
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
+      expect(result.errors).toContainEqual(
         expect.stringContaining("Supply values cannot be negative")
       );
     });
@@ -109,7 +118,7 @@ describe("ValidationService", () => {
       const result = await validationService.validateData(data);
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
+      expect(result.errors).toContainEqual(
         expect.stringContaining("On-chain liquidity cannot be negative")
       );
     });
@@ -121,11 +130,36 @@ describe("ValidationService", () => {
       const result = await validationService.validateData(data);
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
+      expect(result.errors).toContainEqual(
         expect.stringContaining("USD value calculation mismatch")
       );
     });
 
+    it("should report which metrics caused errors", async () => {
+      const data = createMockData({
+        price_usd: VALIDATION_THRESHOLDS.MAX_PRICE_USD + 1,
+        on_chain_liquidity_usd: -1000,
+      });
+      const result = await validationService.validateData(data);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidFields).toEqual([
+        "price_usd",
+        "on_chain_liquidity_usd",
+      ]);
+    });
+
+    it("should attribute messages to the metrics they concern", async () => {
+      const data = createMockData({ on_chain_liquidity_usd: -1000 });
+      const result = await validationService.validateData(data);
+
+      expect(result.fieldMessages).toEqual({
+        on_chain_liquidity_usd: [
+          "On-chain liquidity cannot be negative: $-1000",
+        ],
+      });
+    });
+
     describe("with previous data comparison", () => {
       it("should fail validation for extreme price change", async () => {
         const previousData = createMockData({
@@ -142,7 +176,7 @@ describe("ValidationService", () => {
         );
 
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain(
+        expect(result.errors).toContainEqual(
           expect.stringContaining("Extreme price change")
         );
       });
@@ -154,6 +188,10 @@ describe("ValidationService", () => {
         });
         const currentData = createMockData({
           price_usd: 0.13, // 30% increase
+          total_supply_usd: 1000000000 * 0.13,
+          circulating_supply_usd: 800000000 * 0.13,
+          burned_supply_usd: 50000000 * 0.13,
+          treasury_supply_usd: 150000000 * 0.13,
         });
 
         const result = await validationService.validateData(
@@ -162,7 +200,7 @@ describe("ValidationService", () => {
         );
 
         expect(result.isValid).toBe(true);
-        expect(result.warnings).toContain(
+        expect(result.warnings).toContainEqual(
           expect.stringContaining("Large price change")
         );
       });
@@ -183,7 +221,7 @@ describe("ValidationService", () => {
         );
 
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain(
+        expect(result.errors).toContainEqual(
           expect.stringContaining("Extreme total supply change")
         );
       });
@@ -207,7 +245,7 @@ describe("ValidationService", () => {
         );
 
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain(
+        expect(result.errors).toContainEqual(
           expect.stringContaining("Price dropped to zero")
         );
       });
@@ -228,7 +266,7 @@ describe("ValidationService", () => {
         );
 
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain(
+        expect(result.errors).toContainEqual(
           expect.stringContaining("Total supply dropped to zero")
         );
       });
@@ -239,7 +277,7 @@ describe("ValidationService", () => {
           on_chain_liquidity_usd: 100000,
         });
         const currentData = createMockData({
-          on_chain_liquidity_usd: 200000, // 100% increase
+          on_chain_liquidity_usd: 250000, // 150% increase, above the 100% limit
         });
 
         const result = await validationService.validateData(
@@ -248,25 +286,379 @@ describe("ValidationService", () => {
         );
 
         expect(result.isValid).toBe(true);
-        expect(result.warnings).toContain(
+        expect(result.warnings).toContainEqual(
           expect.stringContaining("Large liquidity change")
         );
       });
     });
+
+    describe("treasury outflows", () => {
+      const treasury = (amount: string): TrackedAddressBalance => ({
+        address: "neutron1treasury",
+        label: "Treasury",
+        category: "treasury",
+        amount,
+      });
+
+      it("should record an outflow above the threshold as an event", async () => {
+        const previousData = createMockData({
+          date: "2025-09-11",
+          treasury_supply: "150000000",
+          address_balances: [treasury("150000000")],
+        });
+        const currentData = applyUsdValues(
+          createMockData({
+            treasury_supply: "148499999.5",
+            address_balances: [treasury("148499999.5")],
+          })
+        );
+
+        const result = await validationService.validateData(
+          currentData,
+          previousData
+        );
+
+        expect(result.isValid).toBe(true);
+        expect(result.events).toEqual([
+          {
+            type: "treasury_outflow",
+            date: "2025-09-12",
+            previous_date: "2025-09-11",
+            previous_amount: "150000000",
+            amount: "148499999.5",
+            delta: "-1500000.5",
+            delta_usd: -225000.08,
+            threshold: "1000000",
+            addresses: [
+              {
+                address: "neutron1treasury",
+                label: "Treasury",
+                previous_amount: "150000000",
+                amount: "148499999.5",
+                delta: "-1500000.5",
+              },
+            ],
+            detected_at: expect.any(String),
+          },
+        ]);
+        expect(result.warnings).toContain(
+          "Treasury outflow of 1500000.5 MARS since 2025-09-11 (threshold: 1000000)"
+        );
+      });
+
+      it("should not record outflows up to the threshold", async () => {
+        const result = await validationService.validateData(
+          applyUsdValues(createMockData({ treasury_supply: "149000000" })),
+          createMockData({ date: "2025-09-11" })
+        );
+
+        expect(result.events).toEqual([]);
+      });
+    });
+
+    describe("with rolling-window history", () => {
+      const withPrice = (date: string, price: number) =>
+        applyUsdValues(createMockData({ date, price_usd: price }));
+
+      // Oscillates by about 3% a day around 0.15
+      const history = [
+        "2025-09-04",
+        "2025-09-05",
+        "2025-09-06",
+        "2025-09-07",
+        "2025-09-08",
+        "2025-09-09",
+        "2025-09-10",
+        "2025-09-11",
+      ].map((date, index) => withPrice(date, index % 2 === 0 ? 0.15 : 0.155));
+
+      it("should accept normal volatility", async () => {
+        const result = await validationService.validateData(
+          withPrice("2025-09-12", 0.16),
+          history[history.length - 1],
+          history
+        );
+
+        expect(result.isValid).toBe(true);
+        expect(result.findings).toEqual([]);
+      });
+
+      it("should flag a drift made of moderate daily moves", async () => {
+        // +30% on each of the last three days
+        const drifting = [
+          ...history.slice(0, 6),
+          withPrice("2025-09-10", 0.195),
+          withPrice("2025-09-11", 0.2535),
+        ];
+
+        const result = await validationService.validateData(
+          withPrice("2025-09-12", 0.32955),
+          drifting[drifting.length - 1],
+          drifting
+        );
+
+        // Scores only flag values for review, the price is kept
+        expect(result.isValid).toBe(true);
+        expect(result.invalidFields).toEqual([]);
+        expect(result.findings).toContainEqual({
+          rule_id: "price_median_score",
+          severity: "warning",
+          message: expect.stringContaining("from its 8-day median"),
+          metrics: ["price_usd"],
+          score: expect.any(Number),
+        });
+      });
+
+      it("should accept a price that steps up and stays there", async () => {
+        const stored = Array.from({ length: 14 }, (_, index) =>
+          withPrice(addDays("2025-09-11", index - 13), 0.1)
+        );
+
+        for (let day = 0; day < 5; day++) {
+          const current = withPrice(addDays("2025-09-12", day), 0.14);
+          const result = await validationService.validateData(
+            current,
+            stored[stored.length - 1],
+            stored.slice(-14)
+          );
+
+          expect(result.isValid).toBe(true);
+          stored.push(current);
+        }
+      });
+
+      it("should leave carried-forward values out of the window", async () => {
+        const carried = (date: string) => ({
+          ...withPrice(date, 0.1),
+          carried_forward: {
+            fields: ["price_usd"] as TokenomicsMetric[],
+            from_date: "2025-08-28",
+          },
+        });
+        const window = Array.from({ length: 14 }, (_, index) => {
+          const date = addDays("2025-09-11", index - 13);
+          return index < 8 ? carried(date) : withPrice(date, 0.14);
+        });
+
+        const result = await validationService.validateData(
+          withPrice("2025-09-12", 0.14),
+          window[window.length - 1],
+          window
+        );
+
+        expect(result.warnings).toEqual([]);
+      });
+
+      it("should fail when the burned supply decreases", async () => {
+        const result = await validationService.validateData(
+          createMockData({ burned_supply: "49999999.5" }),
+          undefined,
+          [createMockData({ date: "2025-09-10" })]
+        );
+
+        expect(result.isValid).toBe(false);
+        expect(result.invalidFields).toEqual(["address_balances"]);
+        expect(result.findings).toContainEqual({
+          rule_id: "burned_supply_decrease",
+          severity: "error",
+          message:
+            "Burned supply decreased: 49999999.5 is below 50000000 on 2025-09-10",
+          metrics: ["address_balances"],
+        });
+      });
+
+      it("should note when there is too little history", async () => {
+        const result = await validationService.validateData(
+          withPrice("2025-09-12", 0.5),
+          undefined,
+          history.slice(-3, -1)
+        );
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toEqual([]);
+        expect(result.findings).toEqual([
+          {
+            rule_id: "price_change_score",
+            severity: "info",
+            message:
+              "Rolling-window checks skipped: 2 of 5 stored days available",
+            metrics: [],
+          },
+        ]);
+      });
+    });
   });
 
-  describe("createFallbackData", () => {
-    // Mock storageService for testing
-    const mockStorageService = {
-      getData: jest.fn(),
+  describe("validation rules", () => {
+    const originalRules = process.env.VALIDATION_RULES;
+
+    afterEach(() => {
+      if (originalRules === undefined) {
+        delete process.env.VALIDATION_RULES;
+      } else {
+        process.env.VALIDATION_RULES = originalRules;
+      }
+    });
+
+    // Rules are read from the environment when the modules load
+    const loadValidationService = (rules: unknown) => {
+      process.env.VALIDATION_RULES = JSON.stringify(rules);
+      let service: typeof validationService;
+      jest.isolateModules(() => {
+        service = require("../validationService").validationService;
+      });
+      return service!;
     };
 
-    beforeEach(() => {
-      // Replace the real storageService with our mock
-      const validationServiceModule = require("../validationService");
-      validationServiceModule.storageService = mockStorageService;
+    it("should tag each finding with its rule id", async () => {
+      const result = await validationService.validateData(
+        createMockData({ on_chain_liquidity_usd: -1000 })
+      );
+
+      expect(
+        result.findings.filter((finding) => finding.severity !== "info")
+      ).toEqual([
+        {
+          rule_id: "on_chain_liquidity_negative",
+          severity: "error",
+          message: "On-chain liquidity cannot be negative: $-1000",
+          metrics: ["on_chain_liquidity_usd"],
+        },
+      ]);
     });
 
+    it("should report only the most severe rule for a check", async () => {
+      const result = await validationService.validateData(
+        applyUsdValues(createMockData({ price_usd: 0.3 })),
+        applyUsdValues(createMockData({ date: "2025-09-11" }))
+      );
+
+      expect(
+        result.findings.filter((finding) =>
+          finding.metrics.includes("price_usd")
+        )
+      ).toEqual([
+        {
+          rule_id: "price_change_error",
+          severity: "error",
+          message: "Extreme price change: 100.00% (max: ±50%)",
+          metrics: ["price_usd"],
+        },
+      ]);
+    });
+
+    it("should apply threshold overrides from the environment", async () => {
+      const service = loadValidationService([
+        { id: "price_max", threshold: 0.1 },
+        { id: "liquidity_change", severity: "error" },
+      ]);
+
+      const result = await service.validateData(
+        createMockData({ on_chain_liquidity_usd: 250000 }),
+        createMockData({ date: "2025-09-11" })
+      );
+
+      expect(result.errors).toEqual([
+        "Price too high: $0.15 (max: $0.1)",
+        "Extreme liquidity change: 150.00% (max: ±100%)",
+      ]);
+      expect(result.invalidFields).toEqual([
+        "price_usd",
+        "on_chain_liquidity_usd",
+      ]);
+    });
+
+    it("should disable rules and add new ones from the environment", async () => {
+      const service = loadValidationService([
+        { id: "on_chain_liquidity_negative", enabled: false },
+        {
+          id: "liquidity_min",
+          metric: "on_chain_liquidity_usd",
+          comparator: "below",
+          threshold: 50000,
+          severity: "warning",
+          lookback: 0,
+        },
+      ]);
+
+      const result = await service.validateData(
+        createMockData({ on_chain_liquidity_usd: -1000 })
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(
+        result.findings.filter((finding) => finding.severity !== "info")
+      ).toEqual([
+        {
+          rule_id: "liquidity_min",
+          severity: "warning",
+          message: "Liquidity too low: $-1000 (min: $50000)",
+          metrics: ["on_chain_liquidity_usd"],
+        },
+      ]);
+    });
+
+    it("should ignore an invalid rule configuration", async () => {
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+      const service = loadValidationService([
+        { id: "price_max", threshold: "low" },
+      ]);
+
+      const result = await service.validateData(
+        createMockData({ price_usd: 0.5, total_supply_usd: 500000000 })
+      );
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Ignoring invalid VALIDATION_RULES:",
+        "entry 0 has an invalid threshold"
+      );
+      expect(result.errors).not.toContainEqual(
+        expect.stringContaining("Price too high")
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("annotateProvenance", () => {
+    it("should append validation messages to provenance warnings", () => {
+      const data = createMockData({
+        provenance: {
+          price_usd: {
+            source: "coingecko",
+            fetched_at: "2025-09-12T10:00:00.000Z",
+            attempts: 2,
+            warnings: ["Fetch failed: Rate limited"],
+          },
+        },
+      });
+
+      const result = validationService.annotateProvenance(data, {
+        isValid: true,
+        errors: [],
+        warnings: ["Large price change: 30.00%"],
+        findings: [
+          {
+            rule_id: "price_change_warning",
+            severity: "warning",
+            message: "Large price change: 30.00%",
+            metrics: ["price_usd"],
+          },
+        ],
+        events: [],
+        invalidFields: [],
+        fieldMessages: { price_usd: ["Large price change: 30.00%"] },
+      });
+
+      expect(result.provenance!.price_usd!.warnings).toEqual([
+        "Fetch failed: Rate limited",
+        "Large price change: 30.00%",
+      ]);
+    });
+  });
+
+  describe("createFallbackData", () => {
+    const mockStorageService = require("../storageService").storageService;
+
     afterEach(() => {
       jest.clearAllMocks();
     });
@@ -292,12 +684,250 @@ describe("ValidationService", () => {
         total_supply_usd: 1100000000 * previousData.price_usd,
       });
       expect(result.usedFallback).toBe(true);
+      expect(result.data!.carried_forward).toEqual({
+        fields: ["address_balances", "price_usd", "on_chain_liquidity_usd"],
+        from_date: "2025-09-11",
+      });
+    });
+
+    it("should only replace the requested fields", async () => {
+      const previousData = createMockData({
+        date: "2025-09-11",
+        price_usd: 0.1,
+        on_chain_liquidity_usd: 90000,
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: previousData,
+      });
+
+      const currentData = createMockData({
+        price_usd: 0.2,
+        on_chain_liquidity_usd: 120000,
+      });
+      const result = await validationService.createFallbackData(
+        "2025-09-12",
+        currentData,
+        ["price_usd"]
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        date: "2025-09-12",
+        price_usd: 0.1, // Replaced
+        on_chain_liquidity_usd: 120000, // Kept
+        burned_supply_usd: 5000000, // Recalculated at the replaced price
+      });
+      expect(result.data!.carried_forward).toEqual({
+        fields: ["price_usd"],
+        from_date: "2025-09-11",
+      });
+    });
+
+    it("should not carry the previous day's volume and fees", async () => {
+      const previousData = createMockData({
+        date: "2025-09-11",
+        on_chain_liquidity_usd: 90000,
+        mars_liquidity: "400000",
+        volume_usd: 25000,
+        lp_fees_usd: 75,
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: previousData,
+      });
+
+      const result = await validationService.createFallbackData(
+        "2025-09-12",
+        createMockData({ volume_usd: 1000000, lp_fees_usd: 3000 }),
+        ["on_chain_liquidity_usd"]
+      );
+
+      expect(result.data).toMatchObject({
+        on_chain_liquidity_usd: 90000,
+        mars_liquidity: "400000",
+      });
+      expect(result.data!.volume_usd).toBeUndefined();
+      expect(result.data!.lp_fees_usd).toBeUndefined();
+    });
+
+    it("should mark carried metrics as fallback in the provenance", async () => {
+      const previousData = createMockData({
+        date: "2025-09-11",
+        provenance: {
+          price_usd: {
+            source: "coingecko",
+            fetched_at: "2025-09-11T23:00:00.000Z",
+            attempts: 1,
+            warnings: [],
+          },
+        },
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: previousData,
+      });
+
+      const liveProvenance: FieldProvenance = {
+        source: "astroport",
+        fetched_at: "2025-09-12T10:00:00.000Z",
+        attempts: 1,
+        warnings: [],
+      };
+      const result = await validationService.createFallbackData(
+        "2025-09-12",
+        createMockData({
+          provenance: {
+            price_usd: {
+              source: "coingecko",
+              fetched_at: "2025-09-12T10:00:00.000Z",
+              attempts: 3,
+              warnings: ["Fetch failed: Rate limited"],
+            },
+            on_chain_liquidity_usd: liveProvenance,
+          },
+        }),
+        ["price_usd"]
+      );
+
+      expect(result.data!.provenance).toEqual({
+        price_usd: {
+          source: "fallback",
+          fetched_at: "2025-09-11T23:00:00.000Z",
+          attempts: 3,
+          warnings: [
+            "Fetch failed: Rate limited",
+            "Carried forward from 2025-09-11",
+          ],
+        },
+        on_chain_liquidity_usd: liveProvenance,
+      });
+    });
+
+    it("should recalculate circulating supply from carried balances", async () => {
+      const balances: TrackedAddressBalance[] = [
+        {
+          address: "burn",
+          label: "Burn",
+          category: "burn",
+          amount: "40000000",
+        },
+        {
+          address: "treasury",
+          label: "Treasury",
+          category: "treasury",
+          amount: "160000000",
+        },
+      ];
+      const previousData = createMockData({
+        date: "2025-09-11",
+        address_balances: balances,
+        category_totals: { burn: "40000000", treasury: "160000000" },
+        burned_supply: "40000000",
+        treasury_supply: "160000000",
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: previousData,
+      });
+
+      const result = await validationService.createFallbackData(
+        "2025-09-12",
+        {
+          date: "2025-09-12",
+          total_supply: "1100000000",
+          price_usd: 0.15,
+          on_chain_liquidity_usd: 100000,
+        },
+        ["address_balances"]
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        total_supply: "1100000000",
+        circulating_supply: "900000000", // 1.1B - 40M - 160M
+        burned_supply: "40000000",
+        treasury_supply: "160000000",
+        address_balances: balances,
+      });
+    });
+
+    it("should keep fractional amounts and USD values exact", async () => {
+      const previousData = createMockData({
+        date: "2025-09-11",
+        address_balances: [
+          {
+            address: "burn",
+            label: "Burn",
+            category: "burn",
+            amount: "40000000.000001",
+          },
+          {
+            address: "treasury",
+            label: "Treasury",
+            category: "treasury",
+            amount: "160000000.999999",
+          },
+        ],
+        category_totals: {
+          burn: "40000000.000001",
+          treasury: "160000000.999999",
+        },
+        burned_supply: "40000000.000001",
+        treasury_supply: "160000000.999999",
+      });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: previousData,
+      });
+
+      const result = await validationService.createFallbackData(
+        "2025-09-12",
+        {
+          date: "2025-09-12",
+          total_supply: "1100000000.5",
+          price_usd: 0.123456789,
+          on_chain_liquidity_usd: 100000,
+        },
+        ["address_balances"]
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        circulating_supply: "899999999.5", // 1100000000.5 - 200000001
+        burned_supply_usd: 4938271.56, // 40000000.000001 * 0.123456789
+        treasury_supply_usd: 19753086.36,
+        total_supply_usd: 135802467.96,
+      });
+    });
+
+    it("should keep fields carried forward by an earlier pass", async () => {
+      const previousData = createMockData({ date: "2025-09-11" });
+      mockStorageService.getData.mockResolvedValue({
+        success: true,
+        data: previousData,
+      });
+
+      const result = await validationService.createFallbackData(
+        "2025-09-12",
+        {
+          ...createMockData(),
+          carried_forward: { fields: ["price_usd"], from_date: "2025-09-11" },
+        },
+        ["total_supply"]
+      );
+
+      expect(result.data!.carried_forward).toEqual({
+        fields: ["price_usd", "total_supply"],
+        from_date: "2025-09-11",
+      });
     });
 
     it("should fail when no previous data available", async () => {
       mockStorageService.getData.mockResolvedValue({
         success: false,
         error: "No data found",
+        notFound: true,
       });
 
       const result = await validationService.createFallbackData(
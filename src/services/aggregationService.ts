@@ -0,0 +1,130 @@
+// Types are now globally available from src/types.d.ts
+import { addDays, toDateString } from "../utils/date";
+
+class AggregationService {
+  private getBucketStart(date: string, granularity: Granularity): string {
+    if (granularity === "month") {
+      return `${date.slice(0, 7)}-01`;
+    }
+
+    if (granularity === "week") {
+      // ISO weeks start on Monday
+      const dayOfWeek = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+      return addDays(date, -((dayOfWeek + 6) % 7));
+    }
+
+    return date;
+  }
+
+  private getBucketEnd(start: string, granularity: Granularity): string {
+    if (granularity === "month") {
+      const nextMonth = new Date(`${start}T00:00:00.000Z`);
+      nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+      return addDays(toDateString(nextMonth), -1);
+    }
+
+    if (granularity === "week") {
+      return addDays(start, 6);
+    }
+
+    return start;
+  }
+
+  private average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  // Daily flows add up over the period. Days whose liquidity was carried
+  // forward repeat an earlier day's flows, so they are left out. Undefined
+  // when no day recorded one
+  private total(
+    records: DailyTokenomicsData[],
+    field: "volume_usd" | "lp_fees_usd"
+  ): number | undefined {
+    const recorded = records
+      .filter(
+        (record) =>
+          !record.carried_forward?.fields.includes("on_chain_liquidity_usd")
+      )
+      .map((record) => record[field])
+      .filter((value): value is number => value !== undefined);
+    return recorded.length > 0
+      ? recorded.reduce((sum, value) => sum + value, 0)
+      : undefined;
+  }
+
+  private aggregateBucket(
+    start: string,
+    records: DailyTokenomicsData[]
+  ): AggregatedTokenomicsData {
+    // Records arrive newest first, so the first one closes the period
+    const closing = records[0];
+    const opening = records[records.length - 1];
+    const prices = records.map((record) => record.price_usd);
+    const liquidity = records.map((record) => record.on_chain_liquidity_usd);
+
+    return {
+      ...closing,
+      date: start,
+      price_usd: this.average(prices),
+      on_chain_liquidity_usd: this.average(liquidity),
+      volume_usd: this.total(records, "volume_usd"),
+      lp_fees_usd: this.total(records, "lp_fees_usd"),
+      price_ohlc: {
+        open: opening.price_usd,
+        high: Math.max(...prices),
+        low: Math.min(...prices),
+        close: closing.price_usd,
+      },
+      liquidity_range: {
+        min: Math.min(...liquidity),
+        max: Math.max(...liquidity),
+      },
+    };
+  }
+
+  aggregate(
+    data: DailyTokenomicsData[],
+    granularity: Granularity
+  ): { data: AggregatedTokenomicsData[]; buckets: AggregationBucket[] } {
+    if (granularity === "day") {
+      return {
+        data,
+        buckets: data.map((record) => ({
+          start: record.date,
+          end: record.date,
+          records: 1,
+        })),
+      };
+    }
+
+    const sorted = [...data].sort((a, b) => b.date.localeCompare(a.date));
+    const groups = new Map<string, DailyTokenomicsData[]>();
+
+    for (const record of sorted) {
+      const start = this.getBucketStart(record.date, granularity);
+      const group = groups.get(start);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(start, [record]);
+      }
+    }
+
+    const aggregated: AggregatedTokenomicsData[] = [];
+    const buckets: AggregationBucket[] = [];
+
+    groups.forEach((records, start) => {
+      aggregated.push(this.aggregateBucket(start, records));
+      buckets.push({
+        start,
+        end: this.getBucketEnd(start, granularity),
+        records: records.length,
+      });
+    });
+
+    return { data: aggregated, buckets };
+  }
+}
+
+export const aggregationService = new AggregationService();
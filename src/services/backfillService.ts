@@ -0,0 +1,277 @@
+// Types are now globally available from src/types.d.ts
+import { addDays, daysBetween } from "../utils/date";
+import { toBaseUnits } from "../utils/decimal";
+import {
+  applyUsdValues,
+  calculateCirculatingSupply,
+  FLOW_FIELDS,
+  METRIC_FIELDS,
+  summarizeBalances,
+  summarizeContractBalances,
+} from "../utils/tokenomics";
+import { dataFetcher } from "./dataFetcher";
+import { storageService } from "./storageService";
+import { validationService } from "./validationService";
+
+// Astroport has no history, so these metrics are copied from the previous record
+const CARRIED_METRICS: TokenomicsMetric[] = ["on_chain_liquidity_usd"];
+
+class BackfillService {
+  /**
+   * Dates missing between the first and last stored dates, oldest first.
+   * Expects the stored dates in ascending order.
+   */
+  findGaps(storedDates: string[]): string[] {
+    const gaps: string[] = [];
+
+    for (let i = 1; i < storedDates.length; i++) {
+      const missing = daysBetween(storedDates[i - 1], storedDates[i]) - 1;
+      for (let offset = 1; offset <= missing; offset++) {
+        gaps.push(addDays(storedDates[i - 1], offset));
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Reconstruct a missing day from historical sources. Supply and balances
+   * are read at the last block of the day and the price is CoinGecko's
+   * closing price. Astroport has no history, so liquidity is carried forward
+   * from the previous record.
+   */
+  async reconstructDay(
+    date: string,
+    price: number | undefined,
+    previous: DailyTokenomicsData,
+    minHeight?: number
+  ): Promise<FetchResult<DailyTokenomicsData>> {
+    if (price === undefined) {
+      return { success: false, error: `No historical price for ${date}` };
+    }
+
+    const heightResult = await dataFetcher.findBlockHeight(
+      `${date}T23:59:59.999Z`,
+      minHeight
+    );
+    if (!heightResult.success) {
+      return { success: false, error: heightResult.error };
+    }
+    const height = heightResult.data!;
+
+    const [totalSupplyResult, balancesResult, contractsResult] =
+      await Promise.all([
+        dataFetcher.fetchTotalSupply(height),
+        dataFetcher.fetchTrackedBalances(height),
+        dataFetcher.fetchContractBalances(height),
+      ]);
+    if (!totalSupplyResult.success) {
+      return {
+        success: false,
+        error: `Total supply at height ${height}: ${totalSupplyResult.error}`,
+      };
+    }
+    if (!balancesResult.success) {
+      return {
+        success: false,
+        error: `Balances at height ${height}: ${balancesResult.error}`,
+      };
+    }
+    if (!contractsResult.success) {
+      return {
+        success: false,
+        error: `Contract balances at height ${height}: ${contractsResult.error}`,
+      };
+    }
+
+    // Only balances are carried; the previous day's 24h volume and fees are
+    // not this day's, so they stay unset
+    const carried: Partial<DailyTokenomicsData> = {};
+    for (const metric of CARRIED_METRICS) {
+      for (const field of METRIC_FIELDS[metric]) {
+        if (!FLOW_FIELDS.includes(field)) {
+          Object.assign(carried, { [field]: previous[field] });
+        }
+      }
+    }
+
+    const now = new Date().toISOString();
+    const backfillNote = `Backfilled at height ${height}`;
+    const balances = summarizeBalances(balancesResult.data!);
+
+    const record: DailyTokenomicsData = {
+      date,
+      total_supply: totalSupplyResult.data!,
+      total_supply_raw: toBaseUnits(totalSupplyResult.data!).toString(),
+      circulating_supply: calculateCirculatingSupply(
+        totalSupplyResult.data!,
+        balances.category_totals!
+      ),
+      ...balances,
+      ...summarizeContractBalances(contractsResult.data!),
+      price_usd: price,
+      on_chain_liquidity_usd: previous.on_chain_liquidity_usd,
+      ...carried,
+      burned_supply_usd: 0,
+      treasury_supply_usd: 0,
+      carried_forward: {
+        fields: [...CARRIED_METRICS],
+        from_date: previous.date,
+      },
+      provenance: {
+        total_supply: {
+          source: "neutron-rest",
+          fetched_at: totalSupplyResult.fetchedAt ?? now,
+          attempts: totalSupplyResult.attempts ?? 0,
+          warnings: [backfillNote],
+        },
+        address_balances: {
+          source: "neutron-rest",
+          fetched_at: balancesResult.fetchedAt ?? now,
+          attempts: balancesResult.attempts ?? 0,
+          warnings: [backfillNote],
+        },
+        contract_balances: {
+          source: "neutron-rest",
+          fetched_at: contractsResult.fetchedAt ?? now,
+          attempts: contractsResult.attempts ?? 0,
+          warnings: [backfillNote],
+        },
+        price_usd: {
+          source: "coingecko",
+          fetched_at: now,
+          attempts: 1,
+          warnings: ["Backfilled from CoinGecko market chart"],
+        },
+        on_chain_liquidity_usd: {
+          source: "fallback",
+          fetched_at:
+            previous.provenance?.on_chain_liquidity_usd?.fetched_at ??
+            previous.updated_at ??
+            `${previous.date}T00:00:00.000Z`,
+          attempts: 0,
+          warnings: [`Carried forward from ${previous.date}`],
+        },
+      },
+      backfilled: { at: now, block_height: height },
+      updated_at: now,
+    };
+
+    return { success: true, data: applyUsdValues(record) };
+  }
+
+  /**
+   * Detect gaps in storage and reconstruct up to `limit` of them, oldest
+   * first. With dryRun the gaps are only reported.
+   */
+  async backfill(
+    options: { limit?: number; dryRun?: boolean } = {}
+  ): Promise<FetchResult<BackfillResult>> {
+    try {
+      const datesResult = await storageService.getStoredDates();
+      if (!datesResult.success) {
+        return { success: false, error: datesResult.error };
+      }
+
+      const gaps = this.findGaps(datesResult.data!);
+      const selected =
+        options.limit !== undefined ? gaps.slice(0, options.limit) : gaps;
+      const result: BackfillResult = {
+        gaps,
+        filled: [],
+        failed: [],
+        remaining: gaps.slice(selected.length),
+      };
+
+      if (options.dryRun || selected.length === 0) {
+        return { success: true, data: result };
+      }
+
+      console.log(
+        `Backfilling ${selected.length} of ${gaps.length} missing days`
+      );
+
+      const pricesResult = await dataFetcher.fetchPriceHistory(
+        selected[0],
+        selected[selected.length - 1]
+      );
+      if (!pricesResult.success) {
+        return {
+          success: false,
+          error: `Price history: ${pricesResult.error}`,
+        };
+      }
+
+      let previous: DailyTokenomicsData | null = null;
+      let lastHeight: number | undefined;
+
+      for (const date of selected) {
+        // Compare against the day before when it is stored or was just
+        // reconstructed, otherwise against the last record available
+        if (!previous || previous.date !== addDays(date, -1)) {
+          const previousResult = await storageService.getData(
+            addDays(date, -1)
+          );
+          if (previousResult.success) {
+            previous = previousResult.data!;
+          }
+        }
+
+        if (!previous) {
+          result.failed.push({
+            date,
+            error: "No earlier record to compare against",
+          });
+          continue;
+        }
+
+        const reconstructed = await this.reconstructDay(
+          date,
+          pricesResult.data![date],
+          previous,
+          lastHeight
+        );
+        if (!reconstructed.success) {
+          result.failed.push({ date, error: reconstructed.error! });
+          continue;
+        }
+
+        const validation = await validationService.validateData(
+          reconstructed.data!,
+          previous
+        );
+        if (!validation.isValid) {
+          result.failed.push({ date, error: validation.errors.join("; ") });
+          continue;
+        }
+
+        const record = validationService.annotateProvenance(
+          reconstructed.data!,
+          validation
+        );
+        const storeResult = await storageService.storeData(record);
+        if (!storeResult.success) {
+          result.failed.push({ date, error: storeResult.error! });
+          continue;
+        }
+
+        result.filled.push(date);
+        previous = record;
+        lastHeight = record.backfilled!.block_height;
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown backfill error";
+      console.error("Backfill failed:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+}
+
+export const backfillService = new BackfillService();
@@ -4,14 +4,29 @@ import {
   COINGECKO_MARS_ID,
   ENDPOINTS,
   MARS_TOKEN,
+  OSMOSIS_PRICE_POOL,
   RETRY_CONFIG,
-  WALLETS,
+  TRACKED_ADDRESSES,
+  TRACKED_CONTRACTS,
 } from "../config/constants";
+import {
+  applyUsdValues,
+  calculateCirculatingSupply,
+  METRIC_SOURCES,
+  summarizeBalances,
+  summarizeContractBalances,
+  summarizeLiquidityPools,
+  TOKENOMICS_METRICS,
+} from "../utils/tokenomics";
+import { fromBaseUnits, toBaseUnits } from "../utils/decimal";
+import { consensusPrice } from "../utils/price";
 
 class DataFetcher {
+  // Successful response bodies are appended to responses when one is passed
   private async fetchWithRetry<T>(
     url: string,
     options: RequestInit = {},
+    responses?: UpstreamResponse[],
     parser: (response: Response) => Promise<T> = (r) => r.json()
   ): Promise<FetchResult<T>> {
     let lastError: string = "";
@@ -42,7 +57,14 @@ class DataFetcher {
         }
 
         const data = await parser(response);
-        return { success: true, data };
+        const fetchedAt = new Date().toISOString();
+        responses?.push({ url, fetched_at: fetchedAt, body: data });
+        return {
+          success: true,
+          data,
+          attempts: attempt,
+          fetchedAt,
+        };
       } catch (error) {
         if (error instanceof Error) {
           if (error.name === "AbortError") {
@@ -64,12 +86,52 @@ class DataFetcher {
       }
     }
 
-    return { success: false, error: lastError };
+    return {
+      success: false,
+      error: lastError,
+      attempts: RETRY_CONFIG.MAX_RETRIES,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+
+  private fetchMeta(
+    result: FetchResult<unknown>
+  ): Pick<FetchResult<unknown>, "attempts" | "fetchedAt"> {
+    return { attempts: result.attempts, fetchedAt: result.fetchedAt };
+  }
+
+  // Report the slowest request so the attempt count reflects the worst case
+  private combinedMeta(
+    results: FetchResult<unknown>[]
+  ): Pick<FetchResult<unknown>, "attempts" | "fetchedAt"> {
+    return {
+      attempts: Math.max(0, ...results.map((result) => result.attempts ?? 0)),
+      fetchedAt: results
+        .map((result) => result.fetchedAt)
+        .filter((fetchedAt): fetchedAt is string => fetchedAt !== undefined)
+        .sort()
+        .pop(),
+    };
+  }
+
+  // Cosmos SDK REST queries read state at this height instead of the latest block
+  private heightOptions(height?: number): RequestInit {
+    return height !== undefined
+      ? { headers: { "x-cosmos-block-height": String(height) } }
+      : {};
   }
 
-  async fetchWalletBalance(address: string): Promise<FetchResult<string>> {
+  async fetchWalletBalance(
+    address: string,
+    height?: number,
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<string>> {
     const url = `${ENDPOINTS.NEUTRON_REST}/cosmos/bank/v1beta1/balances/${address}`;
-    const result = await this.fetchWithRetry<WalletBalanceResponse>(url);
+    const result = await this.fetchWithRetry<WalletBalanceResponse>(
+      url,
+      this.heightOptions(height),
+      responses
+    );
 
     if (result.success && result.data) {
       const marsBalance = result.data.balances.find(
@@ -82,122 +144,634 @@ class DataFetcher {
           marsBalance.amount,
           MARS_TOKEN.decimals
         );
-        return { success: true, data: normalizedAmount };
+        return {
+          success: true,
+          data: normalizedAmount,
+          ...this.fetchMeta(result),
+        };
       } else {
-        return { success: true, data: "0" };
+        return { success: true, data: "0", ...this.fetchMeta(result) };
       }
     }
 
-    return { success: false, error: result.error };
+    return { success: false, error: result.error, ...this.fetchMeta(result) };
   }
 
-  async fetchBurnedSupply(): Promise<FetchResult<string>> {
-    return this.fetchWalletBalance(WALLETS.BURN_ADDRESS);
+  async fetchTrackedBalances(
+    height?: number,
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<TrackedAddressBalance[]>> {
+    const results = await Promise.all(
+      TRACKED_ADDRESSES.map((tracked) =>
+        this.fetchWalletBalance(tracked.address, height, responses)
+      )
+    );
+
+    const failures = results
+      .map((result, index) =>
+        result.success
+          ? null
+          : `${TRACKED_ADDRESSES[index].label}: ${result.error}`
+      )
+      .filter((failure): failure is string => failure !== null);
+
+    const meta = this.combinedMeta(results);
+
+    if (failures.length > 0) {
+      return { success: false, error: failures.join(", "), ...meta };
+    }
+
+    return {
+      success: true,
+      data: TRACKED_ADDRESSES.map((tracked, index) => ({
+        ...tracked,
+        amount: results[index].data!,
+        amount_raw: toBaseUnits(results[index].data!).toString(),
+      })),
+      ...meta,
+    };
   }
 
-  async fetchTreasurySupply(): Promise<FetchResult<string>> {
-    return this.fetchWalletBalance(WALLETS.TREASURY_ADDRESS);
+  /**
+   * MARS held by a CosmWasm contract, read with the contract's configured
+   * smart query. The raw amount is taken from amount_path in the response.
+   */
+  async fetchContractBalance(
+    contract: TrackedContract,
+    height?: number,
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<string>> {
+    const query = Buffer.from(JSON.stringify(contract.query)).toString(
+      "base64"
+    );
+    const url = `${ENDPOINTS.NEUTRON_REST}/cosmwasm/wasm/v1/contract/${contract.address}/smart/${query}`;
+    const result = await this.fetchWithRetry<WasmSmartQueryResponse>(
+      url,
+      this.heightOptions(height),
+      responses
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error, ...this.fetchMeta(result) };
+    }
+
+    const amount = contract.amount_path
+      .split(".")
+      .reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === "object"
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        result.data?.data
+      );
+
+    if (
+      (typeof amount !== "string" && typeof amount !== "number") ||
+      !/^\d+$/.test(String(amount))
+    ) {
+      return {
+        success: false,
+        error: `No amount at ${contract.amount_path} in query response`,
+        ...this.fetchMeta(result),
+      };
+    }
+
+    return {
+      success: true,
+      data: this.normalizeAmount(String(amount), MARS_TOKEN.decimals),
+      ...this.fetchMeta(result),
+    };
   }
 
-  async fetchMarsPrice(): Promise<FetchResult<number>> {
+  async fetchContractBalances(
+    height?: number,
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<ContractBalance[]>> {
+    const results = await Promise.all(
+      TRACKED_CONTRACTS.map((contract) =>
+        this.fetchContractBalance(contract, height, responses)
+      )
+    );
+
+    const failures = results
+      .map((result, index) =>
+        result.success
+          ? null
+          : `${TRACKED_CONTRACTS[index].label}: ${result.error}`
+      )
+      .filter((failure): failure is string => failure !== null);
+
+    const meta = this.combinedMeta(results);
+
+    if (failures.length > 0) {
+      return { success: false, error: failures.join(", "), ...meta };
+    }
+
+    return {
+      success: true,
+      data: TRACKED_CONTRACTS.map((contract, index) => ({
+        address: contract.address,
+        label: contract.label,
+        category: contract.category,
+        amount: results[index].data!,
+        amount_raw: toBaseUnits(results[index].data!).toString(),
+      })),
+      ...meta,
+    };
+  }
+
+  async fetchTotalSupply(
+    height?: number,
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<string>> {
+    const url = `${
+      ENDPOINTS.NEUTRON_REST
+    }/cosmos/bank/v1beta1/supply/by_denom?denom=${encodeURIComponent(
+      MARS_TOKEN.denom
+    )}`;
+    const result = await this.fetchWithRetry<BankSupplyResponse>(
+      url,
+      this.heightOptions(height),
+      responses
+    );
+
+    if (result.success && result.data?.amount?.amount) {
+      return {
+        success: true,
+        data: this.normalizeAmount(
+          result.data.amount.amount,
+          MARS_TOKEN.decimals
+        ),
+        ...this.fetchMeta(result),
+      };
+    }
+
+    return {
+      success: false,
+      error: result.error || "Total supply not available",
+      ...this.fetchMeta(result),
+    };
+  }
+
+  async fetchMarsPrice(
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<number>> {
     const url = `${ENDPOINTS.COINGECKO_BASE}/coins/${COINGECKO_MARS_ID}`;
 
-    const result = await this.fetchWithRetry<CoinGeckoResponse>(url);
+    const result = await this.fetchWithRetry<CoinGeckoResponse>(
+      url,
+      {},
+      responses
+    );
 
     if (result.success && result.data?.market_data?.current_price?.usd) {
       return {
         success: true,
         data: result.data.market_data.current_price.usd,
+        ...this.fetchMeta(result),
       };
     }
 
     return {
       success: false,
       error: result.error || "Price data not available",
+      ...this.fetchMeta(result),
+    };
+  }
+
+  // Price of MARS in the deepest Astroport pool that quotes one
+  async fetchAstroportPrice(
+    pools: Promise<FetchResult<AstroportPool[]>> = this.fetchAstroportPools()
+  ): Promise<FetchResult<number>> {
+    const result = await pools;
+
+    if (result.success && result.data) {
+      const quotes = result.data
+        .map((pool) => ({
+          liquidity: pool.totalLiquidityUSD,
+          price: pool.assets.find((asset) => asset.denom === MARS_TOKEN.denom)
+            ?.priceUSD,
+        }))
+        .filter(
+          (quote): quote is { liquidity: number; price: number } =>
+            typeof quote.price === "number" && quote.price > 0
+        )
+        .sort((a, b) => b.liquidity - a.liquidity);
+
+      if (quotes.length > 0) {
+        return {
+          success: true,
+          data: quotes[0].price,
+          ...this.fetchMeta(result),
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: result.error || "No MARS price in Astroport pools",
+      ...this.fetchMeta(result),
+    };
+  }
+
+  // Spot price of the configured Osmosis pool, in its USD quote asset
+  async fetchOsmosisPrice(
+    pool: OsmosisPricePool,
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<number>> {
+    const url = `${ENDPOINTS.OSMOSIS_LCD}/osmosis/poolmanager/v2/pools/${
+      pool.poolId
+    }/prices?base_asset_denom=${encodeURIComponent(
+      pool.baseDenom
+    )}&quote_asset_denom=${encodeURIComponent(pool.quoteDenom)}`;
+    const result = await this.fetchWithRetry<OsmosisSpotPriceResponse>(
+      url,
+      {},
+      responses
+    );
+    const price = parseFloat(result.data?.spot_price ?? "");
+
+    if (result.success && price > 0) {
+      return { success: true, data: price, ...this.fetchMeta(result) };
+    }
+
+    return {
+      success: false,
+      error: result.error || "Osmosis spot price not available",
+      ...this.fetchMeta(result),
+    };
+  }
+
+  /**
+   * Quote every configured price source and combine the quotes with
+   * consensusPrice. Fails only when no source returns a price.
+   */
+  async fetchConsensusPrice(
+    pools: Promise<FetchResult<AstroportPool[]>> = this.fetchAstroportPools(),
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<PriceConsensus>> {
+    const sources: Array<[PriceSource, Promise<FetchResult<number>>]> = [
+      ["coingecko", this.fetchMarsPrice(responses)],
+      ["astroport", this.fetchAstroportPrice(pools)],
+    ];
+    if (OSMOSIS_PRICE_POOL) {
+      sources.push([
+        "osmosis",
+        this.fetchOsmosisPrice(OSMOSIS_PRICE_POOL, responses),
+      ]);
+    }
+
+    const results = await Promise.all(sources.map(([, result]) => result));
+    const quotes: PriceQuote[] = results.map((result, index) =>
+      result.success
+        ? { source: sources[index][0], price_usd: result.data! }
+        : { source: sources[index][0], error: result.error }
+    );
+
+    const consensus = consensusPrice(quotes);
+    if (!consensus) {
+      return {
+        success: false,
+        error: quotes
+          .map((quote) => `${quote.source}: ${quote.error}`)
+          .join(", "),
+        ...this.combinedMeta(results),
+      };
+    }
+
+    return { success: true, data: consensus, ...this.combinedMeta(results) };
+  }
+
+  /**
+   * Daily closing prices between two dates (inclusive), keyed by ISO date.
+   * Each date uses the last price CoinGecko reports for it.
+   */
+  async fetchPriceHistory(
+    from: string,
+    to: string
+  ): Promise<FetchResult<Record<string, number>>> {
+    const start = Math.floor(Date.parse(`${from}T00:00:00.000Z`) / 1000);
+    const end = Math.floor(Date.parse(`${to}T23:59:59.999Z`) / 1000);
+    const url = `${ENDPOINTS.COINGECKO_BASE}/coins/${COINGECKO_MARS_ID}/market_chart/range?vs_currency=usd&from=${start}&to=${end}`;
+
+    const result = await this.fetchWithRetry<CoinGeckoMarketChartResponse>(url);
+
+    if (result.success && result.data?.prices) {
+      const prices: Record<string, number> = {};
+      // Points are in chronological order, so later ones overwrite earlier ones
+      for (const [timestamp, price] of result.data.prices) {
+        prices[new Date(timestamp).toISOString().split("T")[0]] = price;
+      }
+      return { success: true, data: prices, ...this.fetchMeta(result) };
+    }
+
+    return {
+      success: false,
+      error: result.error || "Price history not available",
+      ...this.fetchMeta(result),
     };
   }
 
-  async fetchOnChainLiquidity(): Promise<FetchResult<number>> {
-    const url = `${ENDPOINTS.ASTROPORT_POOLS}?chainId=${CHAIN_ID}`;
-    const result = await this.fetchWithRetry<AstroportPool[]>(url);
+  async fetchLatestBlock(): Promise<FetchResult<BlockHeader>> {
+    const result = await this.fetchWithRetry<TendermintBlockResponse>(
+      `${ENDPOINTS.NEUTRON_REST}/cosmos/base/tendermint/v1beta1/blocks/latest`
+    );
+    return this.toBlockHeader(result);
+  }
+
+  async fetchBlock(height: number): Promise<FetchResult<BlockHeader>> {
+    const result = await this.fetchWithRetry<TendermintBlockResponse>(
+      `${ENDPOINTS.NEUTRON_REST}/cosmos/base/tendermint/v1beta1/blocks/${height}`
+    );
+    return this.toBlockHeader(result);
+  }
+
+  private toBlockHeader(
+    result: FetchResult<TendermintBlockResponse>
+  ): FetchResult<BlockHeader> {
+    const header = result.data?.block?.header;
+    if (result.success && header) {
+      return {
+        success: true,
+        data: { height: parseInt(header.height, 10), time: header.time },
+        ...this.fetchMeta(result),
+      };
+    }
+
+    return {
+      success: false,
+      error: result.error || "Block not available",
+      ...this.fetchMeta(result),
+    };
+  }
+
+  /**
+   * Binary search for the last block produced at or before the given time.
+   * Pass a known earlier height as minHeight to narrow the search.
+   */
+  async findBlockHeight(
+    timestamp: string,
+    minHeight = 1
+  ): Promise<FetchResult<number>> {
+    const latest = await this.fetchLatestBlock();
+    if (!latest.success) {
+      return { success: false, error: latest.error };
+    }
+
+    const target = Date.parse(timestamp);
+    if (Date.parse(latest.data!.time) <= target) {
+      return { success: true, data: latest.data!.height };
+    }
+
+    let low = minHeight;
+    let high = latest.data!.height;
+    let found: number | null = null;
+
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await this.fetchBlock(mid);
+      if (!block.success) {
+        return {
+          success: false,
+          error: `Block ${mid}: ${block.error}`,
+        };
+      }
+
+      if (Date.parse(block.data!.time) <= target) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (found === null) {
+      return {
+        success: false,
+        error: `No block found at or before ${timestamp}`,
+      };
+    }
+
+    return { success: true, data: found };
+  }
+
+  private fetchAstroportPools(
+    responses?: UpstreamResponse[]
+  ): Promise<FetchResult<AstroportPool[]>> {
+    return this.fetchWithRetry<AstroportPool[]>(
+      `${ENDPOINTS.ASTROPORT_POOLS}?chainId=${CHAIN_ID}`,
+      {},
+      responses
+    );
+  }
+
+  /**
+   * Every Astroport pool containing MARS with its MARS-side amount, deepest
+   * pool first. USD values are rounded to cents.
+   */
+  async fetchLiquidityPools(
+    pools: Promise<FetchResult<AstroportPool[]>> = this.fetchAstroportPools()
+  ): Promise<FetchResult<PoolLiquidity[]>> {
+    const result = await pools;
 
     if (result.success && result.data) {
-      const marsLiquidityUSD = result.data
-        .filter((pool) =>
-          pool.assets.some(
+      const round = (value: number | undefined) =>
+        Math.round((value ?? 0) * 100) / 100;
+
+      const marsPools = result.data
+        .map((pool) => ({
+          pool,
+          mars: pool.assets.find(
             (asset) =>
               asset.denom === MARS_TOKEN.denom ||
               asset.symbol === MARS_TOKEN.symbol
-          )
+          ),
+        }))
+        .filter(({ mars }) => mars !== undefined);
+
+      // Amounts are summed exactly with the token's decimals, so anything
+      // else fails the metric instead of the whole run
+      for (const { pool, mars } of marsPools) {
+        const decimals = mars!.decimals ?? MARS_TOKEN.decimals;
+        const error =
+          mars!.amount && !/^\d+$/.test(mars!.amount)
+            ? `invalid MARS amount ${mars!.amount}`
+            : !Number.isInteger(decimals) ||
+              decimals < 0 ||
+              decimals > MARS_TOKEN.decimals
+            ? `unsupported MARS decimals ${decimals}`
+            : null;
+        if (error) {
+          return {
+            success: false,
+            error: `Astroport pool ${pool.poolAddress} has an ${error}`,
+            ...this.fetchMeta(result),
+          };
+        }
+      }
+
+      const breakdown = marsPools
+        .map(
+          ({ pool, mars }): PoolLiquidity => ({
+            pool_address: pool.poolAddress,
+            pair: pool.assets.map((asset) => asset.symbol).join("/"),
+            pool_type: pool.poolType,
+            mars_amount: mars!.amount
+              ? this.normalizeAmount(
+                  mars!.amount,
+                  mars!.decimals ?? MARS_TOKEN.decimals
+                )
+              : "0",
+            mars_amount_raw: mars!.amount || "0",
+            total_liquidity_usd: round(pool.totalLiquidityUSD),
+            volume_24h_usd: round(pool.dayVolumeUSD),
+            lp_fees_24h_usd: round(pool.dayLpFeesUSD),
+          })
         )
-        .reduce((total, pool) => total + pool.totalLiquidityUSD, 0);
+        .sort((a, b) => b.total_liquidity_usd - a.total_liquidity_usd);
 
-      return { success: true, data: marsLiquidityUSD };
+      return { success: true, data: breakdown, ...this.fetchMeta(result) };
     }
 
-    return { success: false, error: result.error };
+    return { success: false, error: result.error, ...this.fetchMeta(result) };
   }
 
-  async fetchAllData(): Promise<FetchResult<DailyTokenomicsData>> {
+  // Total USD liquidity, both sides, of the Astroport pools containing MARS
+  async fetchOnChainLiquidity(
+    pools: Promise<FetchResult<AstroportPool[]>> = this.fetchAstroportPools()
+  ): Promise<FetchResult<number>> {
+    const result = await this.fetchLiquidityPools(pools);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: result.data!.reduce(
+          (total, pool) => total + pool.total_liquidity_usd,
+          0
+        ),
+        ...this.fetchMeta(result),
+      };
+    }
+
+    return { success: false, error: result.error, ...this.fetchMeta(result) };
+  }
+
+  async fetchAllData(): Promise<TokenomicsFetchResult> {
     const date = new Date().toISOString().split("T")[0];
 
     console.log(`Fetching all tokenomics data for ${date}`);
 
+    // Keep what the sources returned, so a rejected record can be reviewed.
+    // Each call collects its own, so overlapping runs do not mix them
+    const responses: UpstreamResponse[] = [];
+
+    // Price and liquidity both read the Astroport pools, so fetch them once
+    const pools = this.fetchAstroportPools(responses);
+
     // Fetch all data concurrently
     const [
-      burnedSupplyResult,
-      treasurySupplyResult,
+      totalSupplyResult,
+      balancesResult,
+      contractsResult,
       priceResult,
       liquidityResult,
     ] = await Promise.all([
-      this.fetchBurnedSupply(),
-      this.fetchTreasurySupply(),
-      this.fetchMarsPrice(),
-      this.fetchOnChainLiquidity(),
+      this.fetchTotalSupply(undefined, responses),
+      this.fetchTrackedBalances(undefined, responses),
+      this.fetchContractBalances(undefined, responses),
+      this.fetchConsensusPrice(pools, responses),
+      this.fetchLiquidityPools(pools),
     ]);
 
-    // Check for any failures
-    const failures: string[] = [];
-    if (!burnedSupplyResult.success)
-      failures.push(`Burned supply: ${burnedSupplyResult.error}`);
-    if (!treasurySupplyResult.success)
-      failures.push(`Treasury supply: ${treasurySupplyResult.error}`);
-    if (!priceResult.success) failures.push(`Price: ${priceResult.error}`);
-    if (!liquidityResult.success)
-      failures.push(`Liquidity: ${liquidityResult.error}`);
+    const metrics: TokenomicsFetchResult["metrics"] = {
+      total_supply: totalSupplyResult,
+      address_balances: balancesResult,
+      contract_balances: contractsResult,
+      price_usd: priceResult,
+      on_chain_liquidity_usd: liquidityResult,
+    };
 
-    if (failures.length > 0) {
-      return {
-        success: false,
-        error: `Failed to fetch: ${failures.join(", ")}`,
+    // Keep every metric that succeeded so callers only fill in the gaps
+    const data: TokenomicsFetchResult["data"] = {
+      date,
+      updated_at: new Date().toISOString(),
+    };
+    if (totalSupplyResult.success) {
+      data.total_supply = totalSupplyResult.data!;
+      data.total_supply_raw = toBaseUnits(totalSupplyResult.data!).toString();
+    }
+    if (balancesResult.success) {
+      Object.assign(data, summarizeBalances(balancesResult.data!));
+    }
+    if (contractsResult.success) {
+      Object.assign(data, summarizeContractBalances(contractsResult.data!));
+    }
+    if (priceResult.success) {
+      data.price_usd = priceResult.data!.price_usd; // Keep full precision for price
+      data.price_sources = priceResult.data!.sources;
+    }
+    if (liquidityResult.success) {
+      Object.assign(data, summarizeLiquidityPools(liquidityResult.data!));
+    }
+
+    const failedMetrics = TOKENOMICS_METRICS.filter(
+      (metric) => !metrics[metric].success
+    );
+
+    data.provenance = {};
+    for (const metric of TOKENOMICS_METRICS) {
+      const result = metrics[metric];
+      data.provenance[metric] = {
+        source: METRIC_SOURCES[metric],
+        fetched_at: result.fetchedAt ?? data.updated_at!,
+        attempts: result.attempts ?? 0,
+        warnings: result.success ? [] : [`Fetch failed: ${result.error}`],
       };
     }
 
-    const price = priceResult.data!;
-    const burnedSupply = burnedSupplyResult.data!;
-    const treasurySupply = treasurySupplyResult.data!;
+    // Name the price source when only one quoted, and note unused quotes
+    if (data.price_sources) {
+      const used = data.price_sources.quotes.filter(
+        (quote) => quote.price_usd !== undefined && !quote.rejected
+      );
+      data.provenance.price_usd!.source =
+        data.price_sources.method === "single" ? used[0].source : "consensus";
+      data.provenance.price_usd!.warnings = data.price_sources.quotes
+        .filter((quote) => quote.error || quote.rejected)
+        .map((quote) =>
+          quote.rejected
+            ? `Rejected ${quote.source} quote ${quote.price_usd} as an outlier`
+            : `${quote.source} failed: ${quote.error}`
+        );
+    }
+
+    if (failedMetrics.length > 0) {
+      console.error(
+        `Failed to fetch: ${failedMetrics
+          .map((metric) => `${metric}: ${metrics[metric].error}`)
+          .join(", ")}`
+      );
+      return { date, metrics, failedMetrics, data, responses };
+    }
 
-    const data: DailyTokenomicsData = {
+    const complete = data as DailyTokenomicsData;
+    complete.circulating_supply = calculateCirculatingSupply(
+      complete.total_supply!,
+      complete.category_totals!
+    );
+
+    return {
       date,
-      burned_supply: burnedSupply,
-      treasury_supply: treasurySupply,
-      price_usd: price, // Keep full precision for price
-      on_chain_liquidity_usd: Math.round(liquidityResult.data! * 100) / 100,
-      burned_supply_usd:
-        Math.round(parseFloat(burnedSupply) * price * 100) / 100,
-      treasury_supply_usd:
-        Math.round(parseFloat(treasurySupply) * price * 100) / 100,
-      updated_at: new Date().toISOString(),
+      metrics,
+      failedMetrics,
+      data: applyUsdValues(complete),
+      responses,
     };
-
-    return { success: true, data };
   }
 
+  // Exact decimal string, so fractions of a token are kept
   private normalizeAmount(amount: string, decimals: number): string {
-    const amountBigInt = BigInt(amount);
-    const divisor = BigInt(10 ** decimals);
-    const normalized = amountBigInt / divisor;
-    return normalized.toString();
+    return fromBaseUnits(BigInt(amount), decimals);
   }
 }
 
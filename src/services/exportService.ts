@@ -0,0 +1,149 @@
+// Types are now globally available from src/types.d.ts
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+};
+
+class ExportService {
+  /**
+   * Resolve the response format from an explicit `format` query parameter,
+   * falling back to the Accept header. Returns null for unsupported formats.
+   */
+  resolveFormat(
+    formatParam: string | string[] | undefined,
+    acceptHeader: string | undefined
+  ): ExportFormat | null {
+    if (formatParam !== undefined) {
+      return ["json", "csv", "ndjson"].includes(formatParam as string)
+        ? (formatParam as ExportFormat)
+        : null;
+    }
+
+    const accept = acceptHeader?.toLowerCase() ?? "";
+    if (accept.includes("text/csv")) {
+      return "csv";
+    }
+    if (
+      accept.includes("application/x-ndjson") ||
+      accept.includes("application/ndjson")
+    ) {
+      return "ndjson";
+    }
+
+    return "json";
+  }
+
+  getContentType(format: ExportFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  toRow(record: AggregatedTokenomicsData): ExportRow {
+    const row: ExportRow = { date: record.date };
+
+    if (record.total_supply !== undefined) {
+      row.total_supply = record.total_supply;
+      row.total_supply_usd =
+        Math.round((record.total_supply_usd ?? 0) * 100) / 100;
+    }
+
+    if (record.circulating_supply !== undefined) {
+      row.circulating_supply = record.circulating_supply;
+      row.circulating_supply_usd =
+        Math.round((record.circulating_supply_usd ?? 0) * 100) / 100;
+    }
+
+    Object.assign(row, {
+      burned_supply: record.burned_supply,
+      burned_supply_usd: Math.round(record.burned_supply_usd * 100) / 100,
+      treasury_supply: record.treasury_supply,
+      treasury_supply_usd: Math.round(record.treasury_supply_usd * 100) / 100,
+      price_usd: record.price_usd,
+      on_chain_liquidity_usd:
+        Math.round(record.on_chain_liquidity_usd * 100) / 100,
+    });
+
+    if (record.staked_supply !== undefined) {
+      row.staked_supply = record.staked_supply;
+      row.staked_supply_usd =
+        Math.round((record.staked_supply_usd ?? 0) * 100) / 100;
+    }
+
+    if (record.vesting_supply !== undefined) {
+      row.vesting_supply = record.vesting_supply;
+      row.vesting_supply_usd =
+        Math.round((record.vesting_supply_usd ?? 0) * 100) / 100;
+    }
+
+    if (record.mars_liquidity !== undefined) {
+      row.mars_liquidity = record.mars_liquidity;
+      row.mars_liquidity_usd =
+        Math.round((record.mars_liquidity_usd ?? 0) * 100) / 100;
+    }
+
+    if (record.volume_usd !== undefined) {
+      row.volume_usd = Math.round(record.volume_usd * 100) / 100;
+    }
+
+    if (record.lp_fees_usd !== undefined) {
+      row.lp_fees_usd = Math.round(record.lp_fees_usd * 100) / 100;
+    }
+
+    if (record.price_ohlc) {
+      row.price_open = record.price_ohlc.open;
+      row.price_high = record.price_ohlc.high;
+      row.price_low = record.price_ohlc.low;
+      row.price_close = record.price_ohlc.close;
+    }
+
+    if (record.liquidity_range) {
+      row.on_chain_liquidity_min_usd =
+        Math.round(record.liquidity_range.min * 100) / 100;
+      row.on_chain_liquidity_max_usd =
+        Math.round(record.liquidity_range.max * 100) / 100;
+    }
+
+    return row;
+  }
+
+  private escapeCsvValue(value: string | number | undefined): string {
+    if (value === undefined) {
+      return "";
+    }
+
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  toCsv(records: AggregatedTokenomicsData[]): string {
+    const rows = records.map((record) => this.toRow(record));
+
+    // Use the union of keys so optional columns line up across rows
+    const columns: string[] = [];
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!columns.includes(key)) {
+          columns.push(key);
+        }
+      }
+    }
+
+    const lines = [
+      columns.join(","),
+      ...rows.map((row) =>
+        columns.map((column) => this.escapeCsvValue(row[column])).join(",")
+      ),
+    ];
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  toNdjson(records: AggregatedTokenomicsData[]): string {
+    return records
+      .map((record) => `${JSON.stringify(this.toRow(record))}\n`)
+      .join("");
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export class FilesystemBackend implements StorageBackend {
+  constructor(private readonly directory: string) {}
+
+  private getPath(key: string): string {
+    return path.join(this.directory, key);
+  }
+
+  async write(key: string, body: string): Promise<string> {
+    const filePath = this.getPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body, "utf8");
+    return filePath;
+  }
+
+  async read(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getPath(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.getPath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      // Nothing has been stored yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries.filter((entry) => entry.startsWith(prefix));
+  }
+}
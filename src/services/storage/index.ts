@@ -0,0 +1,30 @@
+import { STORAGE_CONFIG } from "../../config/constants";
+import { FilesystemBackend } from "./filesystemBackend";
+import { MemoryBackend } from "./memoryBackend";
+import { VercelBlobBackend } from "./vercelBlobBackend";
+
+export { FilesystemBackend, MemoryBackend, VercelBlobBackend };
+
+/**
+ * Build the backend selected by STORAGE_BACKEND: "vercel" (default),
+ * "filesystem" (files under STORAGE_DIR) or "memory" (per process, for tests).
+ */
+export function createStorageBackend(
+  backend: string = process.env.STORAGE_BACKEND || "vercel",
+  directory: string = process.env.STORAGE_DIR || STORAGE_CONFIG.DEFAULT_DIR
+): StorageBackend {
+  switch (backend as StorageBackendType) {
+    case "vercel":
+      return new VercelBlobBackend();
+    case "filesystem":
+      return new FilesystemBackend(directory);
+    case "memory":
+      return new MemoryBackend();
+    default:
+      throw new Error(
+        `Unknown STORAGE_BACKEND "${backend}" (expected ${STORAGE_CONFIG.BACKENDS.join(
+          ", "
+        )})`
+      );
+  }
+}
@@ -0,0 +1,26 @@
+export class MemoryBackend implements StorageBackend {
+  private entries = new Map<string, string>();
+
+  async write(key: string, body: string): Promise<string> {
+    this.entries.set(key, body);
+    return `memory://${key}`;
+  }
+
+  async read(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.entries.has(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this.entries.keys()).filter((key) =>
+      key.startsWith(prefix)
+    );
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
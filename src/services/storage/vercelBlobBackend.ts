@@ -0,0 +1,76 @@
+import { BlobNotFoundError, head, list, put } from "@vercel/blob";
+
+export class VercelBlobBackend implements StorageBackend {
+  // Public URLs seen in listings, so reads after a list skip the head() call
+  private urls = new Map<string, string>();
+
+  async write(key: string, body: string): Promise<string> {
+    const blob = await put(key, body, {
+      access: "public",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+    });
+    this.urls.set(key, blob.url);
+    return blob.url;
+  }
+
+  async read(key: string): Promise<string | null> {
+    let url = this.urls.get(key);
+
+    if (!url) {
+      const blob = await this.head(key);
+      if (blob === null) {
+        return null;
+      }
+      url = blob.url;
+      this.urls.set(key, url);
+    }
+
+    // Blobs are overwritten hourly, so bypass any cached copy
+    const response = await fetch(url, { cache: "no-store" });
+    if (response.status === 404) {
+      this.urls.delete(key);
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${key}: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return response.text();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.head(key)) !== null;
+  }
+
+  // Only a missing blob is null; rate limits, outages and auth errors throw
+  // so read-modify-write callers do not start over from an empty file
+  private async head(key: string): Promise<{ url: string } | null> {
+    try {
+      return await head(key);
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix, cursor });
+      for (const blob of page.blobs) {
+        keys.push(blob.pathname);
+        this.urls.set(blob.pathname, blob.url);
+      }
+      cursor = page.cursor;
+    } while (cursor);
+
+    return keys;
+  }
+}
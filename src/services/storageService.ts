@@ -1,13 +1,291 @@
-import { head, list, put } from "@vercel/blob";
-import { BLOB_CONFIG } from "../config/constants";
+import { BLOB_CONFIG, SCHEMA_VERSION } from "../config/constants";
+import {
+  addDays,
+  daysBetween,
+  isValidDateString,
+  toDateString,
+} from "../utils/date";
+import { migrateRecord, needsMigration } from "../utils/migrations";
+import { diffRecords } from "../utils/tokenomics";
+import { createStorageBackend } from "./storage";
+
+const FILE_NAME_PATTERN = new RegExp(
+  `^${BLOB_CONFIG.FILE_PREFIX}-(\\d{4}-\\d{2}-\\d{2})\\.json$`
+);
+
+const HISTORY_FILE_PATTERN = new RegExp(
+  `^${BLOB_CONFIG.HISTORY_PREFIX}-(\\d{4}-\\d{2})\\.json$`
+);
+
+const QUARANTINE_FILE_PATTERN = new RegExp(
+  `^${BLOB_CONFIG.QUARANTINE_PREFIX}-(\\d{4}-\\d{2}-\\d{2})\\.json$`
+);
+
+export class StorageService {
+  constructor(
+    private readonly backend: StorageBackend = createStorageBackend()
+  ) {}
 
-class StorageService {
   private getFileName(date: string): string {
     return `${BLOB_CONFIG.FILE_PREFIX}-${date}.json`;
   }
 
-  private getBlobUrl(fileName: string): string {
-    return `${BLOB_CONFIG.CONTAINER_NAME}/${fileName}`;
+  // Stored dates in ascending order, of one month when given
+  private async listDates(month?: string): Promise<string[]> {
+    const keys = await this.backend.list(
+      month ? `${BLOB_CONFIG.FILE_PREFIX}-${month}` : BLOB_CONFIG.FILE_PREFIX
+    );
+
+    return keys
+      .map((key) => FILE_NAME_PATTERN.exec(key.split("/").pop() ?? "")?.[1])
+      .filter((date): date is string => date !== undefined)
+      .sort();
+  }
+
+  private async readDay(date: string): Promise<DailyTokenomicsData> {
+    const body = await this.backend.read(this.getFileName(date));
+    if (body === null) {
+      throw new Error(`Failed to fetch data for ${date}`);
+    }
+    return migrateRecord(JSON.parse(body));
+  }
+
+  private getHistoryFileName(month: string): string {
+    return `${BLOB_CONFIG.HISTORY_PREFIX}-${month}.json`;
+  }
+
+  // Months with a history file, in ascending order
+  private async listHistoryMonths(): Promise<string[]> {
+    const keys = await this.backend.list(BLOB_CONFIG.HISTORY_PREFIX);
+
+    return keys
+      .map((key) => HISTORY_FILE_PATTERN.exec(key.split("/").pop() ?? "")?.[1])
+      .filter((month): month is string => month !== undefined)
+      .sort();
+  }
+
+  private async readHistory(month: string): Promise<MonthlyHistory | null> {
+    const body = await this.backend.read(this.getHistoryFileName(month));
+    if (body === null) {
+      return null;
+    }
+
+    const history: MonthlyHistory = JSON.parse(body);
+    return { ...history, records: history.records.map(migrateRecord) };
+  }
+
+  private async writeHistory(
+    month: string,
+    records: DailyTokenomicsData[]
+  ): Promise<void> {
+    const history: MonthlyHistory = {
+      month,
+      records: [...records].sort((a, b) => a.date.localeCompare(b.date)),
+      updated_at: new Date().toISOString(),
+    };
+    await this.backend.write(
+      this.getHistoryFileName(month),
+      JSON.stringify(history)
+    );
+  }
+
+  private async updateHistory(data: DailyTokenomicsData): Promise<void> {
+    const month = data.date.slice(0, 7);
+    const history = await this.readHistory(month);
+
+    // The first history write, e.g. right after upgrading, builds the files
+    // of every month from the daily files stored so far
+    if (!history && (await this.listHistoryMonths()).length === 0) {
+      const result = await this.rebuildHistory();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return;
+    }
+
+    const records = (history?.records ?? []).filter(
+      (record) => record.date !== data.date
+    );
+    await this.writeHistory(month, [...records, data]);
+  }
+
+  private getRevisionFileName(date: string): string {
+    return `${BLOB_CONFIG.REVISION_PREFIX}-${date}.json`;
+  }
+
+  private async readRevisions(date: string): Promise<DailyRecordRevision[]> {
+    const body = await this.backend.read(this.getRevisionFileName(date));
+    if (body === null) {
+      return [];
+    }
+
+    return (JSON.parse(body) as RevisionLog).revisions.map((revision) => ({
+      ...revision,
+      data: migrateRecord(revision.data),
+    }));
+  }
+
+  /**
+   * Append the stored record for a day to its revision log before it is
+   * replaced. Writes that change nothing but timestamps are not logged.
+   */
+  private async saveRevision(
+    previous: DailyTokenomicsData,
+    next: DailyTokenomicsData
+  ): Promise<void> {
+    const changes = diffRecords(previous, next);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const revisions = await this.readRevisions(previous.date);
+    const log: RevisionLog = {
+      date: previous.date,
+      revisions: [
+        ...revisions,
+        {
+          revision: revisions.length + 1,
+          replaced_at: next.updated_at!,
+          changes,
+          data: previous,
+        },
+      ],
+    };
+    await this.backend.write(
+      this.getRevisionFileName(previous.date),
+      JSON.stringify(log)
+    );
+  }
+
+  /**
+   * Read records from the monthly history files, one request per month.
+   * Days missing from them (stored before history files existed, or whose
+   * history update failed) are read from their daily files.
+   */
+  private async fetchRecords(dates: string[]): Promise<DailyTokenomicsData[]> {
+    const months = dates
+      .map((date) => date.slice(0, 7))
+      .filter((month, index, all) => all.indexOf(month) === index);
+    const histories = await Promise.all(
+      months.map((month) => this.readHistory(month))
+    );
+
+    const byDate = new Map<string, DailyTokenomicsData>();
+    for (const history of histories) {
+      for (const record of history?.records ?? []) {
+        byDate.set(record.date, record);
+      }
+    }
+
+    // Fetch the remaining days concurrently
+    const dataPromises = dates.map(
+      async (date) => byDate.get(date) ?? this.readDay(date)
+    );
+
+    const data = await Promise.all(dataPromises);
+
+    // Sort by date (newest first)
+    data.sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+
+    return data;
+  }
+
+  /**
+   * Records of one month between two dates (inclusive). The month's daily
+   * files are listed only when its history lacks days of the range up to
+   * today, to pick up days stored without a history update.
+   */
+  private async readMonth(
+    month: string,
+    from: string,
+    to: string
+  ): Promise<DailyTokenomicsData[]> {
+    const history = await this.readHistory(month);
+    const records = (history?.records ?? []).filter(
+      (record) => record.date >= from && record.date <= to
+    );
+
+    const monthStart = `${month}-01`;
+    const monthEnd = addDays(`${addDays(monthStart, 31).slice(0, 7)}-01`, -1);
+    const first = from > monthStart ? from : monthStart;
+    const last = [to, monthEnd, toDateString(new Date())].sort()[0];
+    if (first > last || records.length > daysBetween(first, last)) {
+      return records;
+    }
+
+    const known = records.map((record) => record.date);
+    const missing = (await this.listDates(month)).filter(
+      (date) => date >= from && date <= to && known.indexOf(date) === -1
+    );
+    const daily = await Promise.all(missing.map((date) => this.readDay(date)));
+
+    return [...records, ...daily];
+  }
+
+  /**
+   * Stored records between two dates (inclusive, open when omitted), newest
+   * first, read month by month from the history files. With limit, months
+   * are read newest first until enough records are found. Days before the
+   * earliest history file, and every day when there is none, are read from
+   * the daily files.
+   */
+  private async readRecords(
+    options: { from?: string; to?: string; limit?: number } = {}
+  ): Promise<DailyTokenomicsData[]> {
+    const from = options.from ?? "0000-01-01";
+    const to = options.to ?? "9999-12-31";
+    const { limit } = options;
+    const historyMonths = await this.listHistoryMonths();
+
+    if (historyMonths.length === 0) {
+      const dates = (await this.listDates()).filter(
+        (date) => date >= from && date <= to
+      );
+      return this.fetchRecords(
+        limit !== undefined ? dates.slice(-limit) : dates
+      );
+    }
+
+    const months = historyMonths
+      .filter(
+        (month) => month >= from.slice(0, 7) && month <= to.slice(0, 7)
+      )
+      .reverse();
+    let records: DailyTokenomicsData[] = [];
+
+    if (limit === undefined) {
+      const byMonth = await Promise.all(
+        months.map((month) => this.readMonth(month, from, to))
+      );
+      records = byMonth.reduce((all, month) => all.concat(month), records);
+    } else {
+      for (const month of months) {
+        if (records.length >= limit) {
+          break;
+        }
+        records = records.concat(await this.readMonth(month, from, to));
+      }
+    }
+
+    // Months stored before history files existed have no history file
+    const historyStart = `${historyMonths[0]}-01`;
+    const needed = limit === undefined ? undefined : limit - records.length;
+    if (from < historyStart && (needed === undefined || needed > 0)) {
+      const dates = (await this.listDates()).filter(
+        (date) => date >= from && date <= to && date < historyStart
+      );
+      const daily = await Promise.all(
+        (needed !== undefined ? dates.slice(-needed) : dates).map((date) =>
+          this.readDay(date)
+        )
+      );
+      records = records.concat(daily);
+    }
+
+    records.sort((a, b) => b.date.localeCompare(a.date));
+    return limit !== undefined ? records.slice(0, limit) : records;
   }
 
   async storeData(data: DailyTokenomicsData): Promise<FetchResult<string>> {
@@ -17,26 +295,51 @@ class StorageService {
       // Add timestamp if not already present
       const dataWithTimestamp = {
         ...data,
+        schema_version: SCHEMA_VERSION,
         updated_at: data.updated_at || new Date().toISOString(),
       };
 
       const jsonData = JSON.stringify(dataWithTimestamp, null, 2);
 
       console.log(
-        `Storing data for ${data.date} to blob storage with timestamp ${dataWithTimestamp.updated_at}`
+        `Storing data for ${data.date} to storage with timestamp ${dataWithTimestamp.updated_at}`
       );
 
-      const blob = await put(fileName, jsonData, {
-        access: "public",
-        addRandomSuffix: false,
-        allowOverwrite: true,
-      });
+      // Keep the version being replaced, and keep it stored if that fails
+      const existing = await this.backend.read(fileName);
+      if (existing !== null) {
+        try {
+          await this.saveRevision(
+            migrateRecord(JSON.parse(existing)),
+            dataWithTimestamp
+          );
+        } catch (error) {
+          throw new Error(
+            `Failed to save the previous revision of ${fileName}: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+      }
+
+      const location = await this.backend.write(fileName, jsonData);
+
+      console.log(`Data stored successfully at: ${location}`);
 
-      console.log(`Data stored successfully at: ${blob.url}`);
+      try {
+        await this.updateHistory(dataWithTimestamp);
+      } catch (error) {
+        // Range reads would serve the outdated history entry for this day
+        throw new Error(
+          `Stored ${fileName} but failed to update its monthly history: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
 
       return {
         success: true,
-        data: blob.url,
+        data: location,
       };
     } catch (error) {
       const errorMessage =
@@ -52,29 +355,31 @@ class StorageService {
 
   async getData(date: string): Promise<FetchResult<DailyTokenomicsData>> {
     try {
-      const fileName = this.getFileName(date);
+      if (!isValidDateString(date)) {
+        return {
+          success: false,
+          error: `Invalid date: ${date}`,
+        };
+      }
 
-      // Check if file exists
-      try {
-        await head(fileName);
-      } catch {
+      const body = await this.backend.read(this.getFileName(date));
+
+      if (body === null) {
         return {
           success: false,
           error: `No data found for date: ${date}`,
+          notFound: true,
         };
       }
 
-      // Fetch the data using the public URL
-      const response = await fetch(`https://vercel.com/blob/${fileName}`);
+      const data = migrateRecord(JSON.parse(body));
 
-      if (!response.ok) {
+      if (data.date !== date) {
         throw new Error(
-          `Failed to fetch data: ${response.status} ${response.statusText}`
+          `Stored record for ${date} is dated ${data.date ?? "unknown"}`
         );
       }
 
-      const data: DailyTokenomicsData = await response.json();
-
       return {
         success: true,
         data,
@@ -93,28 +398,17 @@ class StorageService {
 
   async getLatestData(): Promise<FetchResult<DailyTokenomicsData>> {
     try {
-      const blobs = await list({
-        prefix: BLOB_CONFIG.FILE_PREFIX,
-        limit: 1,
-      });
+      const [latest] = await this.readRecords({ limit: 1 });
 
-      if (blobs.blobs.length === 0) {
+      if (!latest) {
         return {
           success: false,
           error: "No data found in storage",
         };
       }
 
-      const latestBlob = blobs.blobs[0];
-      const response = await fetch(latestBlob.url);
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch latest data: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data: DailyTokenomicsData = await response.json();
+      // The daily file, in case the history update for it failed
+      const data = await this.readDay(latest.date);
 
       return {
         success: true,
@@ -138,81 +432,191 @@ class StorageService {
     try {
       console.log(`Fetching data for the last ${days} days`);
 
-      const initialListResult = await list({
-        prefix: BLOB_CONFIG.FILE_PREFIX,
-      });
+      const data = await this.readRecords({ limit: days });
 
-      if (initialListResult.blobs.length === 0) {
+      if (data.length === 0) {
         return {
           success: false,
           error: "No data found in storage",
         };
       }
 
-      const allBlobs = [...initialListResult.blobs];
-      let cursor = initialListResult.cursor;
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error(
+        `Failed to retrieve data range for ${days} days:`,
+        errorMessage
+      );
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 
-      while (cursor) {
-        const nextPage = await list({
-          prefix: BLOB_CONFIG.FILE_PREFIX,
-          cursor,
-        });
-        allBlobs.push(...nextPage.blobs);
-        cursor = nextPage.cursor;
-      }
+  async getDataByDateRange(
+    from: string,
+    to: string
+  ): Promise<FetchResult<DailyTokenomicsData[]>> {
+    try {
+      console.log(`Fetching data from ${from} to ${to}`);
 
-      const sortedBlobs = allBlobs.sort((a, b) => {
-        const getDateFromBlob = (blob: (typeof allBlobs)[number]) => {
-          const pathname =
-            "pathname" in blob && blob.pathname
-              ? blob.pathname
-              : new URL(blob.url).pathname;
-          const fileName = pathname.split("/").pop() ?? "";
-          const datePart = fileName
-            .replace(`${BLOB_CONFIG.FILE_PREFIX}-`, "")
-            .replace(".json", "");
-          return datePart;
-        };
+      const data = await this.readRecords({ from, to });
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error(
+        `Failed to retrieve data range ${from} to ${to}:`,
+        errorMessage
+      );
 
-        const dateA = getDateFromBlob(a);
-        const dateB = getDateFromBlob(b);
-        return dateB.localeCompare(dateA);
-      });
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 
-      const recentBlobs = sortedBlobs.slice(0, days);
+  async getAllData(): Promise<FetchResult<DailyTokenomicsData[]>> {
+    try {
+      console.log("Fetching all available data");
 
-      if (recentBlobs.length === 0) {
+      const data = await this.readRecords();
+
+      if (data.length === 0) {
         return {
           success: false,
-          error: "Insufficient data available for requested range",
+          error: "No data found in storage",
         };
       }
 
-      // Fetch all data concurrently
-      const dataPromises = recentBlobs.map(async (blob) => {
-        const response = await fetch(blob.url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data from ${blob.url}`);
-        }
-        return response.json() as Promise<DailyTokenomicsData>;
-      });
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error("Failed to retrieve all data:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  async getStoredDates(): Promise<FetchResult<string[]>> {
+    try {
+      const dates = await this.listDates();
+
+      return {
+        success: true,
+        data: dates,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error("Failed to list stored dates:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  private getHourlyFileName(date: string): string {
+    return `${BLOB_CONFIG.HOURLY_PREFIX}-${date}.json`;
+  }
+
+  /**
+   * Add a snapshot to its day's hourly file, replacing any earlier snapshot
+   * for the same hour. The daily record stays the end-of-day value.
+   */
+  async storeHourlySnapshot(
+    snapshot: HourlySnapshot
+  ): Promise<FetchResult<string>> {
+    try {
+      const date = snapshot.timestamp.split("T")[0];
+      const fileName = this.getHourlyFileName(date);
+      const body = await this.backend.read(fileName);
+      const existing: HourlySnapshot[] =
+        body === null ? [] : (JSON.parse(body) as HourlySnapshotFile).snapshots;
+
+      const file: HourlySnapshotFile = {
+        date,
+        snapshots: [
+          ...existing.filter((entry) => entry.timestamp !== snapshot.timestamp),
+          snapshot,
+        ].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+      };
+
+      const location = await this.backend.write(fileName, JSON.stringify(file));
+
+      return {
+        success: true,
+        data: location,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown storage error";
+      console.error("Failed to store hourly snapshot:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 
-      const data = await Promise.all(dataPromises);
+  /**
+   * Hourly snapshots between two dates (inclusive), newest first. Days
+   * without snapshots are skipped.
+   */
+  async getHourlySnapshots(
+    from: string,
+    to: string
+  ): Promise<FetchResult<HourlySnapshot[]>> {
+    try {
+      const dates: string[] = [];
+      for (let date = from; date <= to; date = addDays(date, 1)) {
+        dates.push(date);
+      }
 
-      // Sort by date (newest first)
-      data.sort(
-        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+      const files = await Promise.all(
+        dates.map((date) => this.backend.read(this.getHourlyFileName(date)))
       );
 
+      const snapshots = files
+        .filter((body): body is string => body !== null)
+        .reduce<HourlySnapshot[]>(
+          (all, body) =>
+            all.concat((JSON.parse(body) as HourlySnapshotFile).snapshots),
+          []
+        )
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
       return {
         success: true,
-        data,
+        data: snapshots,
       };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown retrieval error";
       console.error(
-        `Failed to retrieve data range for ${days} days:`,
+        `Failed to retrieve hourly snapshots ${from} to ${to}:`,
         errorMessage
       );
 
@@ -223,45 +627,436 @@ class StorageService {
     }
   }
 
-  async getAllData(): Promise<FetchResult<DailyTokenomicsData[]>> {
+  private getTreasuryEventFileName(month: string): string {
+    return `${BLOB_CONFIG.TREASURY_EVENT_PREFIX}-${month}.json`;
+  }
+
+  /**
+   * Add a treasury outflow event to its month's file. Each day keeps one
+   * event, so a later indexing run of the same day replaces it.
+   */
+  async storeTreasuryEvent(
+    event: TreasuryOutflowEvent
+  ): Promise<FetchResult<string>> {
     try {
-      console.log("Fetching all available data");
+      const month = event.date.slice(0, 7);
+      const fileName = this.getTreasuryEventFileName(month);
+      const body = await this.backend.read(fileName);
+      const existing: TreasuryOutflowEvent[] =
+        body === null ? [] : (JSON.parse(body) as TreasuryEventFile).events;
+
+      const file: TreasuryEventFile = {
+        month,
+        events: [
+          ...existing.filter((entry) => entry.date !== event.date),
+          event,
+        ].sort((a, b) => a.date.localeCompare(b.date)),
+      };
+
+      const location = await this.backend.write(fileName, JSON.stringify(file));
+
+      return {
+        success: true,
+        data: location,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown storage error";
+      console.error("Failed to store treasury event:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  // Treasury outflow events between two dates (inclusive), newest first
+  async getTreasuryEvents(
+    from: string,
+    to: string
+  ): Promise<FetchResult<TreasuryOutflowEvent[]>> {
+    try {
+      const months: string[] = [];
+      for (
+        let month = from.slice(0, 7);
+        month <= to.slice(0, 7);
+        month = addDays(`${month}-01`, 31).slice(0, 7)
+      ) {
+        months.push(month);
+      }
+
+      const files = await Promise.all(
+        months.map((month) =>
+          this.backend.read(this.getTreasuryEventFileName(month))
+        )
+      );
+
+      const events = files
+        .filter((body): body is string => body !== null)
+        .reduce<TreasuryOutflowEvent[]>(
+          (all, body) =>
+            all.concat((JSON.parse(body) as TreasuryEventFile).events),
+          []
+        )
+        .filter((event) => event.date >= from && event.date <= to)
+        .sort((a, b) => b.date.localeCompare(a.date));
+
+      return {
+        success: true,
+        data: events,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error(
+        `Failed to retrieve treasury events ${from} to ${to}:`,
+        errorMessage
+      );
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Regenerate every monthly history file from the daily files. Returns the
+   * months that were written.
+   */
+  async rebuildHistory(): Promise<FetchResult<string[]>> {
+    try {
+      const dates = await this.listDates();
+      const records = await Promise.all(
+        dates.map((date) => this.readDay(date))
+      );
+
+      const byMonth = new Map<string, DailyTokenomicsData[]>();
+      for (const record of records) {
+        const month = record.date.slice(0, 7);
+        byMonth.set(month, [...(byMonth.get(month) ?? []), record]);
+      }
+
+      const months = Array.from(byMonth.keys()).sort();
+      for (const month of months) {
+        await this.writeHistory(month, byMonth.get(month)!);
+      }
 
-      const blobs = await list({
-        prefix: BLOB_CONFIG.FILE_PREFIX,
-      });
+      return {
+        success: true,
+        data: months,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown rebuild error";
+      console.error("Failed to rebuild history:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Rewrite daily files stored with an older schema version and regenerate
+   * the history files from them. Reads already migrate records, so this only
+   * saves the work on every read. Returns the dates that needed migrating.
+   */
+  async migrateStoredData(
+    options: { dryRun?: boolean } = {}
+  ): Promise<FetchResult<string[]>> {
+    try {
+      const dates = await this.listDates();
+      const migrated: string[] = [];
+
+      for (const date of dates) {
+        const fileName = this.getFileName(date);
+        const body = await this.backend.read(fileName);
+        if (body === null) {
+          continue;
+        }
+
+        const record: DailyTokenomicsData = JSON.parse(body);
+        if (!needsMigration(record)) {
+          continue;
+        }
+
+        if (!options.dryRun) {
+          await this.backend.write(
+            fileName,
+            JSON.stringify(migrateRecord(record), null, 2)
+          );
+        }
+        migrated.push(date);
+      }
+
+      if (!options.dryRun && migrated.length > 0) {
+        const rebuildResult = await this.rebuildHistory();
+        if (!rebuildResult.success) {
+          throw new Error(
+            `Migrated ${migrated.length} daily files but failed to rebuild history: ${rebuildResult.error}`
+          );
+        }
+      }
 
-      if (blobs.blobs.length === 0) {
+      return {
+        success: true,
+        data: migrated,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown migration error";
+      console.error("Failed to migrate stored data:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Replaced versions of a day's record, newest first. Empty when the record
+   * was never overwritten.
+   */
+  async getRevisions(
+    date: string
+  ): Promise<FetchResult<DailyRecordRevision[]>> {
+    try {
+      if (!isValidDateString(date)) {
         return {
           success: false,
-          error: "No data found in storage",
+          error: `Invalid date: ${date}`,
         };
       }
 
-      // Fetch all data concurrently
-      const dataPromises = blobs.blobs.map(async (blob) => {
-        const response = await fetch(blob.url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data from ${blob.url}`);
-        }
-        return response.json() as Promise<DailyTokenomicsData>;
-      });
+      const revisions = await this.readRevisions(date);
+
+      return {
+        success: true,
+        data: revisions.reverse(),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error(`Failed to retrieve revisions for ${date}:`, errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  async getRevision(
+    date: string,
+    revision: number
+  ): Promise<FetchResult<DailyRecordRevision>> {
+    const result = await this.getRevisions(date);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const match = result.data!.find((entry) => entry.revision === revision);
+    if (!match) {
+      return {
+        success: false,
+        error: `No revision ${revision} found for date: ${date}`,
+        notFound: true,
+      };
+    }
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  private getQuarantineFileName(date: string): string {
+    return `${BLOB_CONFIG.QUARANTINE_PREFIX}-${date}.json`;
+  }
+
+  private async readQuarantine(date: string): Promise<QuarantinedRecord[]> {
+    const body = await this.backend.read(this.getQuarantineFileName(date));
+    if (body === null) {
+      return [];
+    }
+
+    return (JSON.parse(body) as QuarantineLog).entries.map((entry) => ({
+      ...entry,
+      data: migrateRecord(entry.data),
+    }));
+  }
+
+  private async writeQuarantine(
+    date: string,
+    entries: QuarantinedRecord[]
+  ): Promise<string> {
+    const log: QuarantineLog = { date, entries };
+    return this.backend.write(
+      this.getQuarantineFileName(date),
+      JSON.stringify(log)
+    );
+  }
+
+  /**
+   * Keep a record that failed validation, with the upstream responses it was
+   * built from, as the next entry of its day's quarantine log.
+   */
+  async storeQuarantinedRecord(
+    record: Omit<QuarantinedRecord, "entry" | "status">
+  ): Promise<FetchResult<QuarantinedRecord>> {
+    try {
+      const entries = await this.readQuarantine(record.date);
+      const quarantined: QuarantinedRecord = {
+        ...record,
+        entry: entries.length + 1,
+        status: "pending",
+      };
+      await this.writeQuarantine(record.date, [...entries, quarantined]);
+
+      return {
+        success: true,
+        data: quarantined,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown storage error";
+      console.error("Failed to quarantine record:", errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 
-      const data = await Promise.all(dataPromises);
+  async getQuarantinedRecords(
+    from: string,
+    to: string
+  ): Promise<FetchResult<QuarantinedRecord[]>> {
+    try {
+      const keys = await this.backend.list(BLOB_CONFIG.QUARANTINE_PREFIX);
+      const dates = keys
+        .map(
+          (key) => QUARANTINE_FILE_PATTERN.exec(key.split("/").pop() ?? "")?.[1]
+        )
+        .filter(
+          (date): date is string =>
+            date !== undefined && date >= from && date <= to
+        );
 
-      // Sort by date (newest first)
-      data.sort(
-        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+      const logs = await Promise.all(
+        dates.map((date) => this.readQuarantine(date))
       );
+      const entries = logs
+        .reduce<QuarantinedRecord[]>((all, log) => all.concat(log), [])
+        .sort((a, b) => b.date.localeCompare(a.date) || b.entry - a.entry);
 
       return {
         success: true,
-        data,
+        data: entries,
       };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown retrieval error";
-      console.error("Failed to retrieve all data:", errorMessage);
+      console.error(
+        `Failed to retrieve quarantined records ${from} to ${to}:`,
+        errorMessage
+      );
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  async getQuarantinedRecord(
+    date: string,
+    entry: number
+  ): Promise<FetchResult<QuarantinedRecord>> {
+    try {
+      const match = (await this.readQuarantine(date)).find(
+        (quarantined) => quarantined.entry === entry
+      );
+      if (!match) {
+        return {
+          success: false,
+          error: `No quarantine entry ${entry} found for date: ${date}`,
+          notFound: true,
+        };
+      }
+
+      return {
+        success: true,
+        data: match,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown retrieval error";
+      console.error(
+        `Failed to retrieve quarantine entry ${entry} for ${date}:`,
+        errorMessage
+      );
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Promote a quarantined record to the stored record for its day, for
+   * values that failed validation but reflect a genuine market move. The
+   * record it replaces is kept as a revision.
+   */
+  async approveQuarantinedRecord(
+    date: string,
+    entry: number
+  ): Promise<FetchResult<QuarantinedRecord>> {
+    const result = await this.getQuarantinedRecord(date, entry);
+    if (!result.success) {
+      return result;
+    }
+
+    const approvedAt = new Date().toISOString();
+    const storeResult = await this.storeData({
+      ...result.data!.data,
+      updated_at: approvedAt,
+    });
+    if (!storeResult.success) {
+      return { success: false, error: storeResult.error };
+    }
+
+    try {
+      const approved: QuarantinedRecord = {
+        ...result.data!,
+        status: "approved",
+        approved_at: approvedAt,
+      };
+      const entries = await this.readQuarantine(date);
+      await this.writeQuarantine(
+        date,
+        entries.map((quarantined) =>
+          quarantined.entry === entry ? approved : quarantined
+        )
+      );
+
+      return {
+        success: true,
+        data: approved,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown storage error";
+      console.error(
+        `Stored quarantine entry ${entry} for ${date} but failed to mark it approved:`,
+        errorMessage
+      );
 
       return {
         success: false,
@@ -272,9 +1067,7 @@ class StorageService {
 
   async dataExistsForDate(date: string): Promise<boolean> {
     try {
-      const fileName = this.getFileName(date);
-      await head(fileName);
-      return true;
+      return await this.backend.exists(this.getFileName(date));
     } catch {
       return false;
     }
@@ -1,172 +1,668 @@
-import { VALIDATION_THRESHOLDS } from "../config/constants";
+import { ANOMALY_CONFIG, VALIDATION_RULES } from "../config/constants";
+import { addDays } from "../utils/date";
+import {
+  amountToUsd,
+  fromBaseUnits,
+  numberToAmount,
+  subtractAmounts,
+  toBaseUnits,
+} from "../utils/decimal";
+import { median } from "../utils/price";
+import {
+  applyUsdValues,
+  calculateCirculatingSupply,
+  FLOW_FIELDS,
+  METRIC_FIELDS,
+  TOKENOMICS_METRICS,
+} from "../utils/tokenomics";
 import { storageService } from "./storageService";
 
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Robust z-score of a value against a sample of percentages. The spread has
+ * a floor so that a perfectly flat window does not turn every move into an
+ * outlier.
+ */
+function robustScore(value: number, sample: number[]): number {
+  const center = median(sample);
+  const mad = median(sample.map((entry) => Math.abs(entry - center)));
+  const spread = Math.max(MAD_SCALE * mad, ANOMALY_CONFIG.MIN_SPREAD_PERCENT);
+  return (value - center) / spread;
+}
+
+interface RuleMetricDescriptor {
+  label: string;
+  noun: string;
+  // Metrics that fall back when a rule on this value fails
+  attribution: TokenomicsMetric[];
+  // Token amount, for supply values
+  amount?: (record: DailyTokenomicsData) => string | undefined;
+  // The value itself for price and liquidity, the stored USD value otherwise
+  usd: (record: DailyTokenomicsData) => number | undefined;
+}
+
+const RULE_METRIC_DESCRIPTORS: Record<RuleMetric, RuleMetricDescriptor> = {
+  price_usd: {
+    label: "Price",
+    noun: "price",
+    attribution: ["price_usd"],
+    usd: (record) => record.price_usd,
+  },
+  on_chain_liquidity_usd: {
+    label: "Liquidity",
+    noun: "liquidity",
+    attribution: ["on_chain_liquidity_usd"],
+    usd: (record) => record.on_chain_liquidity_usd,
+  },
+  total_supply: {
+    label: "Total supply",
+    noun: "total supply",
+    attribution: ["total_supply"],
+    amount: (record) => record.total_supply,
+    usd: (record) => record.total_supply_usd,
+  },
+  circulating_supply: {
+    label: "Circulating supply",
+    noun: "circulating supply",
+    attribution: ["total_supply", "address_balances"],
+    amount: (record) => record.circulating_supply,
+    usd: (record) => record.circulating_supply_usd,
+  },
+  burned_supply: {
+    label: "Burned supply",
+    noun: "burned supply",
+    attribution: ["address_balances"],
+    amount: (record) => record.burned_supply,
+    usd: (record) => record.burned_supply_usd,
+  },
+  treasury_supply: {
+    label: "Treasury supply",
+    noun: "treasury supply",
+    attribution: ["address_balances"],
+    amount: (record) => record.treasury_supply,
+    usd: (record) => record.treasury_supply_usd,
+  },
+};
+
+const SEVERITY_RANK: Record<ValidationSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+};
+
+// What a rule found, before it is tied to the rule and its metrics
+type RuleOutcome = Pick<ValidationFinding, "severity" | "message" | "score">;
+
+function ruleValue(
+  descriptor: RuleMetricDescriptor,
+  record: DailyTokenomicsData
+): number | undefined {
+  if (!descriptor.amount) {
+    return descriptor.usd(record);
+  }
+  const amount = descriptor.amount(record);
+  return amount !== undefined ? parseFloat(amount) : undefined;
+}
+
+function formatValue(
+  descriptor: RuleMetricDescriptor,
+  value: number | string
+): string {
+  return descriptor.amount ? `${value}` : `$${value}`;
+}
+
+// Values a rule's own message can show
+interface RuleMessageValues {
+  value: string;
+  threshold: string;
+  date?: string; // The stored day the record was compared with
+}
+
+// The rule's own message with its values filled in, or the generated one
+function ruleMessage(
+  rule: ValidationRule,
+  message: string,
+  values: RuleMessageValues
+): string {
+  if (!rule.message) {
+    return message;
+  }
+  return rule.message
+    .replace(/\{value\}/g, values.value)
+    .replace(/\{threshold\}/g, values.threshold)
+    .replace(/\{date\}/g, values.date ?? "");
+}
+
 class ValidationService {
+  /**
+   * Validate a record against VALIDATION_RULES. Rules with a lookback read
+   * previousData and history (stored days before the record, in any order).
+   */
   async validateData(
     currentData: DailyTokenomicsData,
-    previousData?: DailyTokenomicsData
+    previousData?: DailyTokenomicsData,
+    history: DailyTokenomicsData[] = []
   ): Promise<DataValidationResult> {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const result: DataValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: [],
+      findings: [],
+      events: [],
+      invalidFields: [],
+      fieldMessages: {},
+    };
+
+    const earlier = [...(previousData ? [previousData] : []), ...history]
+      .filter((record) => record.date < currentData.date)
+      .filter(
+        (record, index, all) =>
+          all.findIndex((other) => other.date === record.date) === index
+      );
+
+    // Rules sharing a metric and comparator report only the most severe hit
+    const groups: Array<{
+      key: string;
+      rule: ValidationRule;
+      outcome: RuleOutcome;
+    }> = [];
+    for (const rule of VALIDATION_RULES) {
+      if (rule.enabled === false) {
+        continue;
+      }
 
-    // Basic value validation
-    this.validateBasicValues(currentData, errors);
+      const outcome = this.evaluateRule(rule, currentData, earlier);
+      if (!outcome) {
+        continue;
+      }
 
-    // Comparative validation if previous data exists
-    if (previousData) {
-      this.validateChanges(currentData, previousData, errors, warnings);
+      const key = `${rule.metric}:${rule.comparator}`;
+      const index = groups.findIndex((group) => group.key === key);
+      if (index < 0) {
+        groups.push({ key, rule, outcome });
+      } else if (
+        SEVERITY_RANK[outcome.severity] >
+        SEVERITY_RANK[groups[index].outcome.severity]
+      ) {
+        groups[index] = { key, rule, outcome };
+      }
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
-    };
+    for (const { rule, outcome } of groups) {
+      // Rules sharing a message, such as the negative supply checks, report once
+      if (
+        result.findings.some((finding) => finding.message === outcome.message)
+      ) {
+        continue;
+      }
+
+      this.addFinding(result, {
+        rule_id: rule.id,
+        ...outcome,
+        // USD mismatches fail the whole record rather than one metric
+        metrics:
+          outcome.severity === "info" || rule.comparator === "usd_mismatch"
+            ? []
+            : rule.metrics ?? RULE_METRIC_DESCRIPTORS[rule.metric].attribution,
+      });
+
+      if (
+        rule.comparator === "outflow" &&
+        rule.metric === "treasury_supply" &&
+        outcome.severity !== "info"
+      ) {
+        const previous = this.findLookbackRecord(rule, currentData, earlier);
+        if (previous) {
+          result.events.push(
+            this.createTreasuryEvent(rule, currentData, previous)
+          );
+        }
+      }
+    }
+
+    result.isValid = result.errors.length === 0;
+    return result;
   }
 
-  private validateBasicValues(
-    data: DailyTokenomicsData,
-    errors: string[]
+  /**
+   * Record a finding. Errors fail validation, and the metrics they implicate
+   * are replaced when the caller falls back to the previous day's data.
+   */
+  private addFinding(
+    result: DataValidationResult,
+    finding: ValidationFinding
   ): void {
-    // Price validation
-    if (data.price_usd < VALIDATION_THRESHOLDS.MIN_PRICE_USD) {
-      errors.push(
-        `Price too low: $${data.price_usd} (min: $${VALIDATION_THRESHOLDS.MIN_PRICE_USD})`
-      );
-    }
-    if (data.price_usd > VALIDATION_THRESHOLDS.MAX_PRICE_USD) {
-      errors.push(
-        `Price too high: $${data.price_usd} (max: $${VALIDATION_THRESHOLDS.MAX_PRICE_USD})`
-      );
+    result.findings.push(finding);
+
+    if (finding.severity === "info") {
+      return;
     }
 
-    // Supply validation
-    const burnedSupply = parseFloat(data.burned_supply);
-    const treasurySupply = parseFloat(data.treasury_supply);
+    if (finding.severity === "error") {
+      result.errors.push(finding.message);
+      for (const metric of finding.metrics) {
+        if (!result.invalidFields.includes(metric)) {
+          result.invalidFields.push(metric);
+        }
+      }
+    } else {
+      result.warnings.push(finding.message);
+    }
+    this.attribute(result, finding.message, finding.metrics);
+  }
 
-    if (burnedSupply < 0 || treasurySupply < 0) {
-      errors.push("Supply values cannot be negative");
+  private attribute(
+    result: DataValidationResult,
+    message: string,
+    metrics: TokenomicsMetric[]
+  ): void {
+    for (const metric of metrics) {
+      result.fieldMessages[metric] = [
+        ...(result.fieldMessages[metric] ?? []),
+        message,
+      ];
     }
+  }
 
-    // Liquidity validation
-    if (data.on_chain_liquidity_usd < 0) {
-      errors.push(
-        `On-chain liquidity cannot be negative: $${data.on_chain_liquidity_usd}`
-      );
+  // The stored record exactly rule.lookback days before current
+  private findLookbackRecord(
+    rule: ValidationRule,
+    current: DailyTokenomicsData,
+    earlier: DailyTokenomicsData[]
+  ): DailyTokenomicsData | undefined {
+    if (rule.lookback < 1) {
+      return undefined;
     }
+    const date = addDays(current.date, -rule.lookback);
+    return earlier.find((record) => record.date === date);
+  }
 
-    // USD value consistency
-    const expectedBurnedSupplyUSD = burnedSupply * data.price_usd;
-    const actualBurnedSupplyUSD = data.burned_supply_usd;
-    const expectedTreasurySupplyUSD = treasurySupply * data.price_usd;
-    const actualTreasurySupplyUSD = data.treasury_supply_usd;
+  /**
+   * Check one rule against the record. Returns null when the rule passes or
+   * lacks the values it reads.
+   */
+  private evaluateRule(
+    rule: ValidationRule,
+    current: DailyTokenomicsData,
+    earlier: DailyTokenomicsData[]
+  ): RuleOutcome | null {
+    const descriptor = RULE_METRIC_DESCRIPTORS[rule.metric];
+    const value = ruleValue(descriptor, current);
+    if (value === undefined) {
+      return null;
+    }
 
-    const burnedUsdDifference = Math.abs(
-      expectedBurnedSupplyUSD - actualBurnedSupplyUSD
+    const shown = formatValue(
+      descriptor,
+      descriptor.amount?.(current) ?? value
     );
-    const burnedUsdDifferencePercent =
-      expectedBurnedSupplyUSD > 0
-        ? (burnedUsdDifference / expectedBurnedSupplyUSD) * 100
-        : 0;
+    const fired = (message: string): RuleOutcome => ({
+      severity: rule.severity,
+      message: ruleMessage(rule, message, {
+        value: shown,
+        threshold: formatValue(descriptor, rule.threshold),
+      }),
+    });
 
-    const treasuryUsdDifference = Math.abs(
-      expectedTreasurySupplyUSD - actualTreasurySupplyUSD
-    );
-    const treasuryUsdDifferencePercent =
-      expectedTreasurySupplyUSD > 0
-        ? (treasuryUsdDifference / expectedTreasurySupplyUSD) * 100
-        : 0;
-
-    if (burnedUsdDifferencePercent > 1) {
-      // Allow 1% difference for rounding
-      errors.push(
-        `Burned supply USD value calculation mismatch: expected ${expectedBurnedSupplyUSD.toFixed(
-          2
-        )}, got ${actualBurnedSupplyUSD.toFixed(2)}`
-      );
+    switch (rule.comparator) {
+      case "negative":
+        return value < 0
+          ? fired(`${descriptor.label} cannot be negative: ${shown}`)
+          : null;
+
+      case "below":
+        return value < rule.threshold
+          ? fired(
+              `${descriptor.label} too low: ${shown} (min: ${formatValue(
+                descriptor,
+                rule.threshold
+              )})`
+            )
+          : null;
+
+      case "above":
+        return value > rule.threshold
+          ? fired(
+              `${descriptor.label} too high: ${shown} (max: ${formatValue(
+                descriptor,
+                rule.threshold
+              )})`
+            )
+          : null;
+
+      case "exceeds_total_supply": {
+        if (current.total_supply === undefined) {
+          return null;
+        }
+        return value > parseFloat(current.total_supply)
+          ? fired(
+              `${descriptor.label} (${shown}) exceeds total supply (${current.total_supply})`
+            )
+          : null;
+      }
+
+      case "usd_mismatch": {
+        const actualUsd = descriptor.usd(current);
+        if (!descriptor.amount || actualUsd === undefined) {
+          return null;
+        }
+        const expectedUsd = value * current.price_usd;
+        const differencePercent =
+          expectedUsd > 0
+            ? (Math.abs(expectedUsd - actualUsd) / expectedUsd) * 100
+            : 0;
+        return differencePercent > rule.threshold
+          ? fired(
+              `${
+                descriptor.label
+              } USD value calculation mismatch: expected ${expectedUsd.toFixed(
+                2
+              )}, got ${actualUsd.toFixed(2)}`
+            )
+          : null;
+      }
+
+      case "change_percent":
+      case "increase_percent":
+      case "drops_to_zero":
+      case "outflow":
+        return this.evaluateLookbackRule(rule, descriptor, current, earlier);
+
+      case "decrease":
+        return this.evaluateDecrease(rule, descriptor, current, earlier);
+
+      case "change_score":
+      case "median_score":
+        return this.evaluateScoreRule(rule, descriptor, current, earlier);
+    }
+  }
+
+  // Rules comparing the record with the stored day rule.lookback days before
+  private evaluateLookbackRule(
+    rule: ValidationRule,
+    descriptor: RuleMetricDescriptor,
+    current: DailyTokenomicsData,
+    earlier: DailyTokenomicsData[]
+  ): RuleOutcome | null {
+    const previous = this.findLookbackRecord(rule, current, earlier);
+    const previousValue = previous && ruleValue(descriptor, previous);
+    const value = ruleValue(descriptor, current);
+    if (!previous || previousValue === undefined || value === undefined) {
+      return null;
     }
 
-    if (treasuryUsdDifferencePercent > 1) {
-      // Allow 1% difference for rounding
-      errors.push(
-        `Treasury supply USD value calculation mismatch: expected ${expectedTreasurySupplyUSD.toFixed(
-          2
-        )}, got ${actualTreasurySupplyUSD.toFixed(2)}`
-      );
+    const fired = (
+      message: string,
+      values: Partial<RuleMessageValues> = {}
+    ): RuleOutcome => ({
+      severity: rule.severity,
+      message: ruleMessage(rule, message, {
+        value: formatValue(descriptor, value),
+        threshold: `${rule.threshold}`,
+        date: previous.date,
+        ...values,
+      }),
+    });
+    const change = this.calculatePercentChange(previousValue, value);
+
+    switch (rule.comparator) {
+      case "drops_to_zero":
+        return value === 0 && previousValue > 0
+          ? fired(
+              `${descriptor.label} dropped to zero - likely data fetch error`
+            )
+          : null;
+
+      case "outflow": {
+        const previousAmount = descriptor.amount?.(previous);
+        const amount = descriptor.amount?.(current);
+        const outflow =
+          previousAmount !== undefined && amount !== undefined
+            ? toBaseUnits(subtractAmounts(previousAmount, amount))
+            : toBaseUnits(numberToAmount(previousValue - value));
+        const shown = formatValue(descriptor, fromBaseUnits(outflow));
+        const threshold = numberToAmount(rule.threshold);
+        return outflow > toBaseUnits(threshold)
+          ? fired(
+              `${descriptor.label} fell by ${shown}${
+                descriptor.amount ? " MARS" : ""
+              } since ${previous.date} (outflow threshold: ${threshold})`,
+              { value: shown, threshold }
+            )
+          : null;
+      }
+
+      case "increase_percent":
+      case "change_percent": {
+        const exceeded =
+          rule.comparator === "increase_percent"
+            ? change > rule.threshold
+            : Math.abs(change) > rule.threshold;
+        if (!exceeded) {
+          return null;
+        }
+        return fired(
+          rule.severity === "error"
+            ? `Extreme ${descriptor.noun} change: ${change.toFixed(2)}% (max: ${
+                rule.comparator === "change_percent" ? "±" : "+"
+              }${rule.threshold}%)`
+            : `Large ${descriptor.noun} change: ${change.toFixed(2)}%`
+        );
+      }
+
+      default:
+        return null;
     }
   }
 
-  private validateChanges(
+  /**
+   * Fail values below the highest one stored within the lookback window,
+   * for balances that can only grow such as the burned supply.
+   */
+  private evaluateDecrease(
+    rule: ValidationRule,
+    descriptor: RuleMetricDescriptor,
     current: DailyTokenomicsData,
-    previous: DailyTokenomicsData,
-    errors: string[],
-    warnings: string[]
-  ): void {
-    // Price change validation
-    const priceChangePercent = this.calculatePercentChange(
-      previous.price_usd,
-      current.price_usd
-    );
-    if (
-      Math.abs(priceChangePercent) >
-      VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT
-    ) {
-      errors.push(
-        `Extreme price change: ${priceChangePercent.toFixed(2)}% (max: ±${
-          VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT
-        }%)`
-      );
-    } else if (
-      Math.abs(priceChangePercent) >
-      VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT / 2
-    ) {
-      warnings.push(`Large price change: ${priceChangePercent.toFixed(2)}%`);
+    earlier: DailyTokenomicsData[]
+  ): RuleOutcome | null {
+    // Amounts are compared exactly, in base units
+    const magnitude = (record: DailyTokenomicsData): bigint | undefined => {
+      const amount = descriptor.amount
+        ? descriptor.amount(record)
+        : descriptor.usd(record) !== undefined
+        ? numberToAmount(descriptor.usd(record)!)
+        : undefined;
+      return amount !== undefined ? toBaseUnits(amount) : undefined;
+    };
+
+    const highest = this.lookbackWindow(rule, current, earlier).reduce<{
+      record: DailyTokenomicsData;
+      value: bigint;
+    } | null>((max, record) => {
+      const value = magnitude(record);
+      return value !== undefined && (!max || value > max.value)
+        ? { record, value }
+        : max;
+    }, null);
+    const value = magnitude(current);
+
+    if (!highest || value === undefined || value >= highest.value) {
+      return null;
     }
+    const shown = formatValue(descriptor, fromBaseUnits(value));
+    const highestShown = formatValue(descriptor, fromBaseUnits(highest.value));
+    return {
+      severity: rule.severity,
+      message: ruleMessage(
+        rule,
+        `${descriptor.label} decreased: ${shown} is below ${highestShown} on ${highest.record.date}`,
+        { value: shown, threshold: highestShown, date: highest.record.date }
+      ),
+    };
+  }
 
-    // Supply change validation
-    const burnedSupplyChange = this.calculatePercentChange(
-      parseFloat(previous.burned_supply),
-      parseFloat(current.burned_supply)
-    );
-    if (
-      Math.abs(burnedSupplyChange) >
-      VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT
-    ) {
-      warnings.push(
-        `Large burned supply change: ${burnedSupplyChange.toFixed(2)}%`
-      );
+  /**
+   * Score the value against the lookback window with a robust z-score,
+   * either the day-over-day change against the window's daily changes or
+   * the distance from the window median. The second catches drifts made of
+   * moves that are each unremarkable.
+   */
+  private evaluateScoreRule(
+    rule: ValidationRule,
+    descriptor: RuleMetricDescriptor,
+    current: DailyTokenomicsData,
+    earlier: DailyTokenomicsData[]
+  ): RuleOutcome | null {
+    const value = ruleValue(descriptor, current)!;
+    const values = this.lookbackWindow(rule, current, earlier)
+      .map((record) => ruleValue(descriptor, record))
+      .filter((entry): entry is number => entry !== undefined);
+
+    if (values.length < ANOMALY_CONFIG.MIN_HISTORY_DAYS) {
+      // Reported once for all score rules, see validateData
+      return {
+        severity: "info",
+        message: `Rolling-window checks skipped: ${values.length} of ${ANOMALY_CONFIG.MIN_HISTORY_DAYS} stored days available`,
+      };
     }
 
-    const treasurySupplyChange = this.calculatePercentChange(
-      parseFloat(previous.treasury_supply),
-      parseFloat(current.treasury_supply)
-    );
-    if (
-      Math.abs(treasurySupplyChange) >
-      VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT
-    ) {
-      warnings.push(
-        `Large treasury supply change: ${treasurySupplyChange.toFixed(2)}%`
+    let message: string;
+    let score: number;
+    if (rule.comparator === "change_score") {
+      const changes = values
+        .slice(1)
+        .map((entry, index) =>
+          this.calculatePercentChange(values[index], entry)
+        );
+      const change = this.calculatePercentChange(
+        values[values.length - 1],
+        value
       );
+      message = `${descriptor.label} change of ${change.toFixed(
+        2
+      )}% is unusual for the last ${values.length} days`;
+      score = robustScore(change, changes);
+    } else {
+      const center = median(values);
+      const deviations = values.map((entry) =>
+        this.calculatePercentChange(center, entry)
+      );
+      const deviation = this.calculatePercentChange(center, value);
+      message = `${descriptor.label} is ${deviation.toFixed(2)}% from its ${
+        values.length
+      }-day median`;
+      score = robustScore(deviation, deviations);
+    }
+
+    if (Math.abs(score) < rule.threshold) {
+      return null;
     }
+    return {
+      severity: rule.severity,
+      message: ruleMessage(rule, `${message} (score ${score.toFixed(1)})`, {
+        value: formatValue(descriptor, value),
+        threshold: `${rule.threshold}`,
+      }),
+      score: Math.round(score * 100) / 100,
+    };
+  }
+
+  /**
+   * Stored days within rule.lookback days before current, oldest first.
+   * Days that carried the rule's values forward are left out, so a window
+   * of repeated stale values cannot keep rejecting a new level.
+   */
+  private lookbackWindow(
+    rule: ValidationRule,
+    current: DailyTokenomicsData,
+    earlier: DailyTokenomicsData[]
+  ): DailyTokenomicsData[] {
+    const from = addDays(current.date, -rule.lookback);
+    const { attribution } = RULE_METRIC_DESCRIPTORS[rule.metric];
+    return earlier
+      .filter((record) => record.date >= from)
+      .filter(
+        (record) =>
+          !record.carried_forward?.fields.some((metric) =>
+            attribution.includes(metric)
+          )
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private createTreasuryEvent(
+    rule: ValidationRule,
+    current: DailyTokenomicsData,
+    previous: DailyTokenomicsData
+  ): TreasuryOutflowEvent {
+    const delta = subtractAmounts(
+      current.treasury_supply,
+      previous.treasury_supply
+    );
 
-    // Liquidity change validation
-    const liquidityChange = this.calculatePercentChange(
-      previous.on_chain_liquidity_usd,
-      current.on_chain_liquidity_usd
+    const previousBalances = new Map(
+      (previous.address_balances ?? [])
+        .filter((balance) => balance.category === "treasury")
+        .map((balance) => [balance.address, balance])
     );
-    if (
-      Math.abs(liquidityChange) >
-      VALIDATION_THRESHOLDS.MAX_DAILY_CHANGE_PERCENT * 2
-    ) {
-      // Allow more variation for liquidity
-      warnings.push(`Large liquidity change: ${liquidityChange.toFixed(2)}%`);
+    const addresses = (current.address_balances ?? [])
+      .filter((balance) => balance.category === "treasury")
+      .map((balance): TreasuryAddressChange => {
+        const previousAmount =
+          previousBalances.get(balance.address)?.amount ?? "0";
+        return {
+          address: balance.address,
+          label: balance.label,
+          previous_amount: previousAmount,
+          amount: balance.amount,
+          delta: subtractAmounts(balance.amount, previousAmount),
+        };
+      })
+      .filter((change) => change.delta !== "0");
+
+    return {
+      type: "treasury_outflow",
+      date: current.date,
+      previous_date: previous.date,
+      previous_amount: previous.treasury_supply,
+      amount: current.treasury_supply,
+      delta,
+      delta_usd: amountToUsd(delta, current.price_usd),
+      threshold: numberToAmount(rule.threshold),
+      addresses,
+      detected_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Append each metric's validation messages to its provenance warnings so
+   * they are persisted with the record.
+   */
+  annotateProvenance(
+    data: DailyTokenomicsData,
+    validation: DataValidationResult
+  ): DailyTokenomicsData {
+    if (!data.provenance) {
+      return data;
     }
 
-    // Check for suspicious zero values
-    if (current.price_usd === 0 && previous.price_usd > 0) {
-      errors.push("Price dropped to zero - likely data fetch error");
+    const provenance: DailyTokenomicsData["provenance"] = {};
+    for (const metric of TOKENOMICS_METRICS) {
+      const entry = data.provenance[metric];
+      if (entry) {
+        provenance[metric] = {
+          ...entry,
+          warnings: [
+            ...entry.warnings,
+            ...(validation.fieldMessages[metric] ?? []),
+          ],
+        };
+      }
     }
+
+    return { ...data, provenance };
   }
 
   private calculatePercentChange(oldValue: number, newValue: number): number {
@@ -174,21 +670,48 @@ class ValidationService {
     return ((newValue - oldValue) / oldValue) * 100;
   }
 
+  // Stored days read by the enabled rules' lookbacks, newest first
+  async getValidationHistory(date: string): Promise<DailyTokenomicsData[]> {
+    const lookback = Math.max(
+      0,
+      ...VALIDATION_RULES.filter((rule) => rule.enabled !== false).map(
+        (rule) => rule.lookback
+      )
+    );
+    if (lookback === 0) {
+      return [];
+    }
+
+    const result = await storageService.getDataByDateRange(
+      addDays(date, -lookback),
+      addDays(date, -1)
+    );
+    return result.success ? result.data! : [];
+  }
+
   async getValidationContext(
     date: string
   ): Promise<DailyTokenomicsData | null> {
-    // Try to get previous day's data for comparison
-    const previousDate = new Date(date);
-    previousDate.setDate(previousDate.getDate() - 1);
-    const previousDateStr = previousDate.toISOString().split("T")[0];
-
-    const result = await storageService.getData(previousDateStr);
-    return result.success ? result.data! : null;
+    // Previous day's data for comparison, null only when none was stored
+    const result = await storageService.getData(addDays(date, -1));
+    if (result.notFound) {
+      return null;
+    }
+    if (!result.success) {
+      throw new Error(`Failed to read the previous day's data: ${result.error}`);
+    }
+    return result.data!;
   }
 
+  /**
+   * Fill in metrics that failed to fetch or failed validation with the
+   * previous day's values, keeping every other metric from currentData.
+   * Derived values (circulating supply, USD values) are recalculated.
+   */
   async createFallbackData(
     date: string,
-    failedData: Partial<DailyTokenomicsData>
+    currentData: Partial<DailyTokenomicsData>,
+    fieldsToReplace: TokenomicsMetric[] = []
   ): Promise<FetchResult<DailyTokenomicsData>> {
     try {
       const previousData = await this.getValidationContext(date);
@@ -200,35 +723,83 @@ class ValidationService {
         };
       }
 
+      // Missing metrics are carried unless the previous record lacks them too
+      const carriedFields = TOKENOMICS_METRICS.filter(
+        (metric) =>
+          fieldsToReplace.includes(metric) ||
+          (METRIC_FIELDS[metric].every(
+            (field) => currentData[field] === undefined
+          ) &&
+            METRIC_FIELDS[metric].some(
+              (field) => previousData[field] !== undefined
+            ))
+      );
+
       console.log(
-        `Creating fallback data for ${date} using previous day's data`
+        `Creating fallback data for ${date} using ${
+          previousData.date
+        } values for: ${carriedFields.join(", ")}`
       );
 
+      const merged: Partial<DailyTokenomicsData> = { ...currentData };
+      for (const metric of carriedFields) {
+        for (const field of METRIC_FIELDS[metric]) {
+          Object.assign(merged, {
+            [field]: FLOW_FIELDS.includes(field)
+              ? undefined
+              : previousData[field],
+          });
+        }
+      }
+
+      // Carried metrics keep the original fetch time and attempt count of the
+      // record they were copied from, when it has one
+      const provenance: DailyTokenomicsData["provenance"] = {
+        ...currentData.provenance,
+      };
+      for (const metric of carriedFields) {
+        const current = currentData.provenance?.[metric];
+        const previous = previousData.provenance?.[metric];
+        provenance[metric] = {
+          source: "fallback",
+          fetched_at:
+            previous?.fetched_at ??
+            previousData.updated_at ??
+            `${previousData.date}T00:00:00.000Z`,
+          attempts: current?.attempts ?? 0,
+          warnings: [
+            ...(current?.warnings ?? []),
+            `Carried forward from ${previousData.date}`,
+          ],
+        };
+      }
+
+      // Fields already carried forward by an earlier fallback pass stay marked
+      const previouslyCarried = (
+        currentData.carried_forward?.fields ?? []
+      ).filter((metric) => !carriedFields.includes(metric));
+
       const fallbackData: DailyTokenomicsData = {
+        ...(merged as DailyTokenomicsData),
         date,
-        burned_supply: failedData.burned_supply || previousData.burned_supply,
-        treasury_supply:
-          failedData.treasury_supply || previousData.treasury_supply,
-        price_usd: failedData.price_usd || previousData.price_usd,
-        on_chain_liquidity_usd:
-          failedData.on_chain_liquidity_usd ||
-          previousData.on_chain_liquidity_usd,
-        burned_supply_usd: 0, // Will be calculated below
-        treasury_supply_usd: 0, // Will be calculated below
+        circulating_supply:
+          merged.total_supply !== undefined && merged.category_totals
+            ? calculateCirculatingSupply(
+                merged.total_supply,
+                merged.category_totals
+              )
+            : currentData.circulating_supply ?? previousData.circulating_supply,
+        carried_forward: {
+          fields: [...previouslyCarried, ...carriedFields],
+          from_date: previousData.date,
+        },
+        provenance,
         updated_at: new Date().toISOString(),
       };
 
-      // Recalculate USD values with 2 decimal places
-      const price = fallbackData.price_usd;
-      fallbackData.burned_supply_usd =
-        Math.round(parseFloat(fallbackData.burned_supply) * price * 100) / 100;
-      fallbackData.treasury_supply_usd =
-        Math.round(parseFloat(fallbackData.treasury_supply) * price * 100) /
-        100;
-
       return {
         success: true,
-        data: fallbackData,
+        data: applyUsdValues(fallbackData),
         usedFallback: true,
       };
     } catch (error) {
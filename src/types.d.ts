@@ -6,34 +6,252 @@ interface TokenConfig {
 
 interface DailyTokenomicsData {
   date: string;
+  schema_version?: number; // Set on store; records without it are version 1
+  total_supply?: string; // Optional for records stored before supply tracking
+  total_supply_raw?: string; // Base units as returned by the chain
+  circulating_supply?: string; // Total minus burned, treasury and excluded addresses
   burned_supply: string;
   treasury_supply: string;
   price_usd: number;
-  on_chain_liquidity_usd: number;
+  price_sources?: PriceSources; // Missing on records stored before multi-source pricing
+  on_chain_liquidity_usd: number; // Both sides of every MARS pool
+  liquidity_pools?: PoolLiquidity[]; // Missing on records stored before the per-pool breakdown
+  mars_liquidity?: string; // MARS held by the pools in liquidity_pools
+  mars_liquidity_usd?: number; // MARS side only, valued at price_usd
+  volume_usd?: number; // 24h traded volume across the pools in liquidity_pools
+  lp_fees_usd?: number; // 24h LP fees across the pools in liquidity_pools
+  total_supply_usd?: number;
+  circulating_supply_usd?: number;
   burned_supply_usd: number;
   treasury_supply_usd: number;
+  address_balances?: TrackedAddressBalance[]; // One entry per TRACKED_ADDRESSES wallet
+  category_totals?: Partial<Record<AddressCategory, string>>;
+  contract_balances?: ContractBalance[]; // One entry per TRACKED_CONTRACTS contract
+  staked_supply?: string; // Sum of "staked" contract balances
+  vesting_supply?: string; // Sum of "vesting" contract balances
+  staked_supply_usd?: number;
+  vesting_supply_usd?: number;
+  carried_forward?: {
+    fields: TokenomicsMetric[]; // Metrics copied from an earlier record
+    from_date: string; // Date of the record they were copied from
+  };
+  provenance?: Partial<Record<TokenomicsMetric, FieldProvenance>>; // Missing on records stored before provenance tracking
+  backfilled?: {
+    at: string; // ISO timestamp of when the record was reconstructed
+    block_height: number; // Neutron height the balances and supply were read at
+  };
   updated_at?: string; // ISO timestamp of when this data was stored/updated (optional for backward compatibility)
 }
 
+interface PriceQuote {
+  source: PriceSource;
+  price_usd?: number; // Missing when the source failed
+  error?: string;
+  rejected?: boolean; // True when left out of the consensus as an outlier
+}
+
+interface PriceSources {
+  method: PriceMethod;
+  quotes: PriceQuote[];
+}
+
+interface PriceConsensus {
+  price_usd: number;
+  sources: PriceSources;
+}
+
+interface FieldProvenance {
+  source: DataSource;
+  fetched_at: string; // ISO timestamp of the upstream fetch (or of the copied record's fetch)
+  attempts: number; // Requests made, including retries
+  warnings: string[]; // Fetch failures and validation messages for this metric
+}
+
+interface DataQuality {
+  date: string;
+  estimated: boolean; // True when any metric was carried forward
+  backfilled: boolean; // True when the record was reconstructed after the fact
+  carried_forward: TokenomicsMetric[];
+  provenance: Partial<Record<TokenomicsMetric, FieldProvenance>>;
+}
+
+interface TrackedAddress {
+  address: string;
+  label: string;
+  category: AddressCategory;
+}
+
+interface TrackedAddressBalance extends TrackedAddress {
+  amount: string; // Normalized, exact to MARS_TOKEN.decimals
+  amount_raw?: string; // Base units as returned by the chain
+}
+
+interface TrackedContract {
+  address: string;
+  label: string;
+  category: ContractBalanceCategory;
+  query: Record<string, unknown>; // Smart query message, e.g. { "total_staked": {} }
+  amount_path: string; // Dot-separated path to the raw amount in the query response
+}
+
+interface ContractBalance {
+  address: string;
+  label: string;
+  category: ContractBalanceCategory;
+  amount: string; // Normalized, exact to MARS_TOKEN.decimals
+  amount_raw?: string; // Base units as returned by the contract
+}
+
+interface PoolLiquidity {
+  pool_address: string;
+  pair: string; // Asset symbols, e.g. "MARS/USDC"
+  pool_type: string;
+  mars_amount: string; // Normalized MARS held by the pool
+  mars_amount_raw?: string; // Base units as reported by Astroport
+  total_liquidity_usd: number; // Both sides
+  volume_24h_usd: number;
+  lp_fees_24h_usd: number;
+}
+
+interface AggregatedTokenomicsData extends DailyTokenomicsData {
+  price_ohlc?: { open: number; high: number; low: number; close: number };
+  liquidity_range?: { min: number; max: number };
+}
+
+interface AggregationBucket {
+  start: string; // ISO date of the first day in the bucket
+  end: string; // ISO date of the last day in the bucket
+  records: number; // Number of stored days rolled into the bucket
+}
+
+interface BalancePoint {
+  date: string;
+  amount: string;
+  amount_raw?: string; // Base units, when the stored record has them
+  value_usd: number;
+}
+
 interface TokenomicsResponse {
   data: {
+    total_supply: Array<{ date: string; amount: string; value_usd?: number }>;
+    circulating_supply: Array<{
+      date: string;
+      amount: string;
+      value_usd?: number;
+    }>;
     burned_supply: Array<{ date: string; amount: string; value_usd?: number }>;
     treasury_supply: Array<{
       date: string;
       amount: string;
       value_usd?: number;
     }>;
-    price_usd: Array<{ date: string; value_usd: number }>;
-    on_chain_liquidity_usd: Array<{ date: string; value_usd: number }>;
+    address_balances: Array<TrackedAddress & { balances: BalancePoint[] }>;
+    category_totals: Partial<
+      Record<
+        AddressCategory,
+        Array<{ date: string; amount: string; value_usd: number }>
+      >
+    >;
+    staked_supply: Array<{ date: string; amount: string; value_usd: number }>;
+    vesting_supply: Array<{ date: string; amount: string; value_usd: number }>;
+    contract_balances: Array<
+      Omit<ContractBalance, "amount" | "amount_raw"> & {
+        balances: BalancePoint[];
+      }
+    >;
+    price_usd: Array<{
+      date: string;
+      value_usd: number;
+      open?: number;
+      high?: number;
+      low?: number;
+      close?: number;
+    }>;
+    on_chain_liquidity_usd: Array<{
+      date: string;
+      value_usd: number;
+      min_usd?: number;
+      max_usd?: number;
+    }>;
+    mars_liquidity: Array<{ date: string; amount: string; value_usd: number }>;
+    volume_usd: Array<{ date: string; value_usd: number }>;
+    lp_fees_usd: Array<{ date: string; value_usd: number }>;
+    liquidity_pools: Array<
+      Pick<PoolLiquidity, "pool_address" | "pair" | "pool_type"> & {
+        values: Array<
+          Omit<PoolLiquidity, "pool_address" | "pair" | "pool_type"> & {
+            date: string;
+            mars_value_usd: number;
+          }
+        >;
+      }
+    >;
   };
   meta: {
     token: TokenConfig;
     last_updated: string; // ISO timestamp of when data was actually fetched/stored
     total_records: number;
     days_requested: number;
+    range?: DateRange; // Present when the request used from/to instead of days
+    granularity?: Granularity; // Present when data was rolled up into week/month buckets
+    buckets?: AggregationBucket[];
+  };
+  quality?: DataQuality[]; // Present when requested with include=quality
+}
+
+interface TokenomicsDayResponse {
+  data: DailyTokenomicsData;
+  meta: {
+    token: TokenConfig;
+    last_updated: string;
+  };
+}
+
+interface HourlyTokenomicsResponse {
+  data: {
+    price_usd: Array<{
+      timestamp: string;
+      value_usd: number;
+      estimated: boolean;
+    }>;
+    on_chain_liquidity_usd: Array<{
+      timestamp: string;
+      value_usd: number;
+      estimated: boolean;
+    }>;
+  };
+  meta: {
+    token: TokenConfig;
+    interval: Interval;
+    range: DateRange;
+    total_records: number;
+    last_updated: string;
+  };
+}
+
+interface TokenomicsRevisionsResponse {
+  data: Array<Omit<DailyRecordRevision, "data">>; // Newest first
+  meta: {
+    token: TokenConfig;
+    date: string;
+    total_revisions: number;
   };
 }
 
+interface TokenomicsRevisionResponse {
+  data: DailyRecordRevision;
+  meta: {
+    token: TokenConfig;
+  };
+}
+
+interface SupplyResponse {
+  metric: SupplyMetric;
+  value: string;
+  date: string; // ISO date of the stored record the value comes from
+  last_updated: string;
+}
+
 interface WalletBalance {
   denom: string;
   amount: string;
@@ -47,6 +265,27 @@ interface WalletBalanceResponse {
   };
 }
 
+interface BankSupplyResponse {
+  amount: {
+    denom: string;
+    amount: string;
+  };
+}
+
+interface TendermintBlockResponse {
+  block: {
+    header: {
+      height: string;
+      time: string; // RFC 3339 timestamp
+    };
+  };
+}
+
+interface BlockHeader {
+  height: number;
+  time: string;
+}
+
 interface AstroportPool {
   chainId: string;
   poolAddress: string;
@@ -64,6 +303,10 @@ interface AstroportPool {
   dayLpFeesUSD: number;
 }
 
+interface WasmSmartQueryResponse {
+  data: unknown; // Contract-specific response
+}
+
 interface CoinGeckoResponse {
   id: string;
   symbol: string;
@@ -75,17 +318,278 @@ interface CoinGeckoResponse {
   };
 }
 
+interface OsmosisPricePool {
+  poolId: string;
+  baseDenom: string; // MARS on Osmosis
+  quoteDenom: string; // USD stablecoin
+}
+
+interface OsmosisSpotPriceResponse {
+  spot_price: string; // Quote asset per base asset
+}
+
+interface CoinGeckoMarketChartResponse {
+  prices: Array<[number, number]>; // [unix ms, price]
+}
+
+interface TreasuryAddressChange {
+  address: string;
+  label: string;
+  previous_amount: string;
+  amount: string;
+  delta: string; // amount - previous_amount, negative for outflows
+}
+
+interface TreasuryOutflowEvent {
+  type: "treasury_outflow";
+  date: string; // Day the outflow was recorded on
+  previous_date: string; // Day it is measured from
+  previous_amount: string; // Treasury supply on previous_date
+  amount: string; // Treasury supply on date
+  delta: string; // Negative, in MARS
+  delta_usd: number; // Valued at the day's price
+  threshold: string; // Outflow threshold in effect when the event was detected
+  addresses: TreasuryAddressChange[]; // Treasury wallets whose balance changed
+  detected_at: string; // ISO timestamp
+}
+
+interface TreasuryEventFile {
+  month: string; // YYYY-MM
+  events: TreasuryOutflowEvent[]; // One per day, oldest first
+}
+
+interface TreasuryEventsResponse {
+  data: TreasuryOutflowEvent[]; // Newest first
+  meta: {
+    token: TokenConfig;
+    range: DateRange;
+    threshold: string; // Current outflow threshold, in MARS
+    total_events: number;
+  };
+}
+
+type ValidationSeverity = "info" | "warning" | "error";
+
+// Record values validation rules can check
+type RuleMetric =
+  | "price_usd"
+  | "on_chain_liquidity_usd"
+  | "total_supply"
+  | "circulating_supply"
+  | "burned_supply"
+  | "treasury_supply";
+
+type RuleComparator =
+  | "negative" // Value below zero
+  | "below" // Value below threshold
+  | "above" // Value above threshold
+  | "exceeds_total_supply" // Value above the record's total supply
+  | "usd_mismatch" // Stored USD value off by more than threshold percent
+  | "change_percent" // Change since the lookback day beyond ±threshold percent
+  | "increase_percent" // Increase since the lookback day above threshold percent
+  | "drops_to_zero" // Zero while the lookback day was not
+  | "decrease" // Below the highest value of the lookback window
+  | "outflow" // Decrease since the lookback day above threshold, in MARS
+  | "change_score" // Robust z-score of the daily change against the lookback window
+  | "median_score"; // Robust z-score of the distance from the lookback window median
+
+interface ValidationRule {
+  id: string;
+  metric: RuleMetric;
+  comparator: RuleComparator;
+  threshold: number; // Unit depends on the comparator, unused by some
+  severity: ValidationSeverity;
+  lookback: number; // Stored days before the record that the rule reads, 0 for none
+  enabled?: boolean; // Defaults to true
+  message?: string; // Replaces the generated message, with {value}, {threshold} and {date} filled in
+  metrics?: TokenomicsMetric[]; // Replaces the metrics that fall back when the rule fails
+}
+
+// Changes to a default rule, or a complete new rule, keyed by id
+type ValidationRuleOverride = Partial<ValidationRule> & { id: string };
+
+interface ValidationFinding {
+  rule_id: string;
+  severity: ValidationSeverity; // Errors fail validation, warnings are stored with the record
+  message: string;
+  metrics: TokenomicsMetric[];
+  score?: number; // Robust z-score, for rolling-window checks
+}
+
 interface DataValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  findings: ValidationFinding[]; // Every error, warning and info message with its severity
+  events: TreasuryOutflowEvent[]; // Stored by the caller once the record is accepted
+  invalidFields: TokenomicsMetric[]; // Metrics implicated by errors, replaced on fallback
+  fieldMessages: Partial<Record<TokenomicsMetric, string[]>>; // Errors and warnings per metric
+}
+
+// Parsed body of one upstream request made while fetching a record
+interface UpstreamResponse {
+  url: string;
+  fetched_at: string;
+  body: unknown;
+}
+
+interface TokenomicsFetchResult {
+  date: string;
+  metrics: {
+    total_supply: FetchResult<string>;
+    address_balances: FetchResult<TrackedAddressBalance[]>;
+    contract_balances: FetchResult<ContractBalance[]>;
+    price_usd: FetchResult<PriceConsensus>;
+    on_chain_liquidity_usd: FetchResult<PoolLiquidity[]>;
+  };
+  failedMetrics: TokenomicsMetric[];
+  data: Partial<DailyTokenomicsData> & { date: string }; // Complete when no metric failed
+  responses: UpstreamResponse[]; // Successful requests, in completion order
+}
+
+interface BackfillResult {
+  gaps: string[]; // Missing dates between the first and last stored record
+  filled: string[];
+  failed: Array<{ date: string; error: string }>;
+  remaining: string[]; // Gaps left for a later run because of the limit
+}
+
+// One cron run's values, kept alongside the end-of-day record
+interface HourlySnapshot {
+  timestamp: string; // ISO timestamp truncated to the hour (UTC)
+  total_supply?: string;
+  circulating_supply?: string;
+  price_usd: number;
+  on_chain_liquidity_usd: number;
+  carried_forward?: TokenomicsMetric[]; // Metrics copied from an earlier record
+}
+
+// All snapshots of one day, oldest first
+interface HourlySnapshotFile {
+  date: string;
+  snapshots: HourlySnapshot[];
+}
+
+// A daily record as it was before a later write replaced it
+interface DailyRecordRevision {
+  revision: number; // 1 for the first replaced version of the day
+  replaced_at: string; // ISO timestamp of the write that replaced it
+  changes: RecordChange[]; // Differences to the record that replaced it
+  data: DailyTokenomicsData;
+}
+
+interface RecordChange {
+  field: string; // Top-level DailyTokenomicsData field
+  previous: unknown; // undefined when the field was added
+  next: unknown; // undefined when the field was removed
+}
+
+// Every replaced version of one day's record, oldest first
+interface RevisionLog {
+  date: string;
+  revisions: DailyRecordRevision[];
+}
+
+type QuarantineStatus = "pending" | "approved";
+
+// A record that failed validation, kept with the evidence it was built from
+interface QuarantinedRecord {
+  date: string;
+  entry: number; // 1 for the first rejected record of the day
+  status: QuarantineStatus;
+  quarantined_at: string;
+  approved_at?: string; // When it replaced the stored record for its day
+  data: DailyTokenomicsData; // As validated, before any fallback
+  responses: UpstreamResponse[];
+  errors: string[];
+  warnings: string[];
+  findings: ValidationFinding[];
+  invalid_fields: TokenomicsMetric[];
+}
+
+// Every rejected record of one day, oldest first
+interface QuarantineLog {
+  date: string;
+  entries: QuarantinedRecord[];
+}
+
+interface QuarantineListResponse {
+  data: Array<Omit<QuarantinedRecord, "data" | "responses">>; // Newest first
+  meta: {
+    range: DateRange;
+    total_entries: number;
+  };
 }
 
+interface QuarantineEntryResponse {
+  data: QuarantinedRecord;
+}
+
+// All records of one month, kept next to the daily files so range reads
+// need one request per month
+interface MonthlyHistory {
+  month: string; // YYYY-MM
+  records: DailyTokenomicsData[]; // Oldest first
+  updated_at: string;
+}
+
+// Key/value store holding the JSON documents StorageService reads and writes
+interface StorageBackend {
+  write(key: string, body: string): Promise<string>; // Returns the stored location
+  read(key: string): Promise<string | null>; // null when the key does not exist
+  exists(key: string): Promise<boolean>;
+  list(prefix: string): Promise<string[]>; // Keys starting with prefix
+}
+
+type StorageBackendType = "vercel" | "filesystem" | "memory";
+
 interface FetchResult<T> {
   success: boolean;
   data?: T;
   error?: string;
   usedFallback?: boolean;
+  notFound?: boolean; // Set when the requested record does not exist
+  attempts?: number; // Requests made, including retries
+  fetchedAt?: string; // ISO timestamp of the last attempt
 }
 
 type DaysParam = "30" | "90" | "180" | "all";
+
+type Granularity = "day" | "week" | "month";
+
+type Interval = "1d" | "1h";
+
+type TokenomicsMetric =
+  | "total_supply"
+  | "address_balances"
+  | "contract_balances"
+  | "price_usd"
+  | "on_chain_liquidity_usd";
+
+type DataSource =
+  | "neutron-rest"
+  | "coingecko"
+  | "astroport"
+  | "osmosis"
+  | "consensus" // Combined from several price sources
+  | "fallback";
+
+type PriceSource = "coingecko" | "astroport" | "osmosis";
+
+// "single" when only one source returned a price
+type PriceMethod = "single" | "median";
+
+type AddressCategory = "burn" | "treasury" | "locked" | "custom";
+
+type ContractBalanceCategory = "staked" | "vesting";
+
+type SupplyMetric = "circulating" | "total";
+
+type ExportFormat = "json" | "csv" | "ndjson";
+
+type ExportRow = Record<string, string | number | undefined>;
+
+interface DateRange {
+  from: string; // ISO date (YYYY-MM-DD), inclusive
+  to: string; // ISO date (YYYY-MM-DD), inclusive
+}
@@ -0,0 +1,29 @@
+import { timingSafeEqual } from "crypto";
+import { NextApiRequest } from "next";
+
+/**
+ * Check the request's `Authorization: Bearer <token>` header against the
+ * expected token. Always false when no token is configured.
+ */
+export function hasBearerToken(
+  req: NextApiRequest,
+  expectedToken: string | undefined
+): boolean {
+  if (!expectedToken) {
+    return false;
+  }
+
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(expectedToken);
+
+  // timingSafeEqual throws on length mismatch
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
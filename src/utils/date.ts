@@ -0,0 +1,27 @@
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function isValidDateString(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return false;
+  }
+
+  // Reject dates like 2025-02-30 that Date would silently roll over
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(parsed.getTime()) && toDateString(parsed) === value;
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00.000Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+export function daysBetween(from: string, to: string): number {
+  const fromTime = new Date(`${from}T00:00:00.000Z`).getTime();
+  const toTime = new Date(`${to}T00:00:00.000Z`).getTime();
+  return Math.round((toTime - fromTime) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,91 @@
+import { MARS_TOKEN } from "../config/constants";
+
+// Prices are converted to fixed point with this many decimals before any
+// multiplication, well below the smallest price we accept
+const PRICE_DECIMALS = 12;
+
+function powerOfTen(exponent: number): bigint {
+  return BigInt(`1${"0".repeat(exponent)}`);
+}
+
+/**
+ * Parse a decimal token amount such as "1234.5" into base units. Integer
+ * strings, as stored before fractional amounts were kept, are accepted too.
+ */
+export function toBaseUnits(
+  amount: string,
+  decimals: number = MARS_TOKEN.decimals
+): bigint {
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(amount.trim());
+  if (!match) {
+    throw new Error(`Invalid decimal amount: ${amount}`);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`${amount} has more than ${decimals} decimal places`);
+  }
+
+  const units = BigInt(
+    whole + fraction + "0".repeat(decimals - fraction.length)
+  );
+  return sign ? BigInt(0) - units : units;
+}
+
+/**
+ * Exact decimal string for an amount in base units, without trailing zeros:
+ * 1234500000 with 6 decimals is "1234.5".
+ */
+export function fromBaseUnits(
+  units: bigint,
+  decimals: number = MARS_TOKEN.decimals
+): string {
+  const negative = units < BigInt(0);
+  const digits = (negative ? BigInt(0) - units : units).toString();
+  const padded =
+    digits.length > decimals
+      ? digits
+      : "0".repeat(decimals - digits.length + 1) + digits;
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+// Exact decimal string for a number, rounded to the token's decimals
+export function numberToAmount(
+  value: number,
+  decimals: number = MARS_TOKEN.decimals
+): string {
+  return fromBaseUnits(
+    toBaseUnits(value.toFixed(decimals), decimals),
+    decimals
+  );
+}
+
+export function sumAmounts(amounts: string[]): string {
+  return fromBaseUnits(
+    amounts.reduce((total, amount) => total + toBaseUnits(amount), BigInt(0))
+  );
+}
+
+export function subtractAmounts(amount: string, subtrahend: string): string {
+  return fromBaseUnits(toBaseUnits(amount) - toBaseUnits(subtrahend));
+}
+
+/**
+ * USD value of a MARS amount, rounded half away from zero to cents. The
+ * multiplication is done in fixed point so large balances keep every digit.
+ */
+export function amountToUsd(amount: string, price: number): number {
+  const product =
+    toBaseUnits(amount) *
+    toBaseUnits(price.toFixed(PRICE_DECIMALS), PRICE_DECIMALS);
+  const divisor = powerOfTen(MARS_TOKEN.decimals + PRICE_DECIMALS - 2);
+
+  const negative = product < BigInt(0);
+  const magnitude = negative ? BigInt(0) - product : product;
+  const cents = (magnitude + divisor / BigInt(2)) / divisor;
+
+  return Number(fromBaseUnits(negative ? BigInt(0) - cents : cents, 2));
+}
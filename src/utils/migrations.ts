@@ -0,0 +1,55 @@
+import { SCHEMA_VERSION } from "../config/constants";
+
+// Records stored before schema versioning have no schema_version
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+type Migration = (record: DailyTokenomicsData) => DailyTokenomicsData;
+
+// Keyed by the version each migration upgrades from
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 records may predate updated_at and the per-category totals
+  1: (record) => ({
+    ...record,
+    category_totals: record.category_totals ?? {
+      burn: record.burned_supply,
+      treasury: record.treasury_supply,
+    },
+    updated_at: record.updated_at ?? `${record.date}T00:00:00.000Z`,
+  }),
+};
+
+export function getSchemaVersion(record: DailyTokenomicsData): number {
+  return record.schema_version ?? UNVERSIONED_SCHEMA_VERSION;
+}
+
+export function needsMigration(record: DailyTokenomicsData): boolean {
+  return getSchemaVersion(record) < SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a stored record to the current schema version, one version at a
+ * time. Records from a newer version are rejected rather than guessed at.
+ */
+export function migrateRecord(
+  record: DailyTokenomicsData
+): DailyTokenomicsData {
+  let version = getSchemaVersion(record);
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Record for ${record.date} has schema version ${version}, newer than supported version ${SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = record;
+  while (version < SCHEMA_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    migrated = migration(migrated);
+    version++;
+  }
+
+  return { ...migrated, schema_version: SCHEMA_VERSION };
+}
@@ -0,0 +1,50 @@
+import { PRICE_CONFIG } from "../config/constants";
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Combine the quotes that have a price into one price. With three or more,
+ * quotes further than MAX_DEVIATION_PERCENT from their median are marked as
+ * rejected and the median of the rest is used. Two quotes cannot outvote each
+ * other, so both are kept. Returns null when no quote has a price.
+ */
+export function consensusPrice(quotes: PriceQuote[]): PriceConsensus | null {
+  const prices = quotes
+    .map((quote) => quote.price_usd)
+    .filter((price): price is number => price !== undefined);
+
+  if (prices.length === 0) {
+    return null;
+  }
+
+  if (prices.length === 1) {
+    return { price_usd: prices[0], sources: { method: "single", quotes } };
+  }
+
+  const center = median(prices);
+  const deviates = (price: number) =>
+    (Math.abs(price - center) / center) * 100 >
+    PRICE_CONFIG.MAX_DEVIATION_PERCENT;
+  // Quotes spread so widely that none is close to the median are all kept
+  const canReject =
+    prices.length >= 3 && prices.some((price) => !deviates(price));
+  const isOutlier = (price: number) => canReject && deviates(price);
+
+  const marked = quotes.map((quote) =>
+    quote.price_usd !== undefined && isOutlier(quote.price_usd)
+      ? { ...quote, rejected: true }
+      : quote
+  );
+  const accepted = prices.filter((price) => !isOutlier(price));
+
+  return {
+    price_usd: median(accepted),
+    sources: { method: "median", quotes: marked },
+  };
+}
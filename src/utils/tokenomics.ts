@@ -0,0 +1,212 @@
+import {
+  NON_CIRCULATING_CATEGORIES,
+  TOKENOMICS_METRICS,
+} from "../config/constants";
+import { amountToUsd, subtractAmounts, sumAmounts } from "./decimal";
+
+export { TOKENOMICS_METRICS };
+
+// Stored fields that originate from each metric and are carried forward together
+export const METRIC_FIELDS: Record<
+  TokenomicsMetric,
+  Array<keyof DailyTokenomicsData>
+> = {
+  total_supply: ["total_supply", "total_supply_raw"],
+  address_balances: [
+    "address_balances",
+    "category_totals",
+    "burned_supply",
+    "treasury_supply",
+  ],
+  contract_balances: ["contract_balances", "staked_supply", "vesting_supply"],
+  price_usd: ["price_usd", "price_sources"],
+  on_chain_liquidity_usd: [
+    "on_chain_liquidity_usd",
+    "liquidity_pools",
+    "mars_liquidity",
+    "volume_usd",
+    "lp_fees_usd",
+  ],
+};
+
+// 24h flows rather than balances. A carried-forward metric leaves them unset,
+// since repeating an earlier day's volume would count it twice in totals
+export const FLOW_FIELDS: Array<keyof DailyTokenomicsData> = [
+  "volume_usd",
+  "lp_fees_usd",
+];
+
+// Upstream each metric is fetched from, recorded in a record's provenance
+export const METRIC_SOURCES: Record<TokenomicsMetric, DataSource> = {
+  total_supply: "neutron-rest",
+  address_balances: "neutron-rest",
+  contract_balances: "neutron-rest",
+  price_usd: "consensus",
+  on_chain_liquidity_usd: "astroport",
+};
+
+export function summarizeBalances(
+  balances: TrackedAddressBalance[]
+): Pick<
+  DailyTokenomicsData,
+  "address_balances" | "category_totals" | "burned_supply" | "treasury_supply"
+> {
+  const totals: Partial<Record<AddressCategory, string>> = {};
+
+  for (const balance of balances) {
+    totals[balance.category] = sumAmounts([
+      totals[balance.category] ?? "0",
+      balance.amount,
+    ]);
+  }
+
+  return {
+    address_balances: balances,
+    category_totals: totals,
+    burned_supply: totals.burn ?? "0",
+    treasury_supply: totals.treasury ?? "0",
+  };
+}
+
+export function summarizeContractBalances(
+  balances: ContractBalance[]
+): Pick<
+  DailyTokenomicsData,
+  "contract_balances" | "staked_supply" | "vesting_supply"
+> {
+  const sum = (category: ContractBalanceCategory) =>
+    sumAmounts(
+      balances
+        .filter((balance) => balance.category === category)
+        .map((balance) => balance.amount)
+    );
+
+  return {
+    contract_balances: balances,
+    staked_supply: sum("staked"),
+    vesting_supply: sum("vesting"),
+  };
+}
+
+export function summarizeLiquidityPools(
+  pools: PoolLiquidity[]
+): Pick<
+  DailyTokenomicsData,
+  | "on_chain_liquidity_usd"
+  | "liquidity_pools"
+  | "mars_liquidity"
+  | "volume_usd"
+  | "lp_fees_usd"
+> {
+  const sumUsd = (
+    field: "total_liquidity_usd" | "volume_24h_usd" | "lp_fees_24h_usd"
+  ) =>
+    Math.round(pools.reduce((total, pool) => total + pool[field], 0) * 100) /
+    100;
+
+  return {
+    on_chain_liquidity_usd: sumUsd("total_liquidity_usd"),
+    volume_usd: sumUsd("volume_24h_usd"),
+    lp_fees_usd: sumUsd("lp_fees_24h_usd"),
+    liquidity_pools: pools,
+    mars_liquidity: sumAmounts(pools.map((pool) => pool.mars_amount)),
+  };
+}
+
+export function calculateCirculatingSupply(
+  totalSupply: string,
+  categoryTotals: Partial<Record<AddressCategory, string>>
+): string {
+  const nonCirculating = sumAmounts(
+    NON_CIRCULATING_CATEGORIES.map(
+      (category) => categoryTotals[category] ?? "0"
+    )
+  );
+  return subtractAmounts(totalSupply, nonCirculating);
+}
+
+/**
+ * Recalculate every USD value in a record from its amounts and price, with
+ * 2 decimal places.
+ */
+export function applyUsdValues(data: DailyTokenomicsData): DailyTokenomicsData {
+  const price = data.price_usd;
+
+  return {
+    ...data,
+    burned_supply_usd: amountToUsd(data.burned_supply, price),
+    treasury_supply_usd: amountToUsd(data.treasury_supply, price),
+    total_supply_usd:
+      data.total_supply !== undefined
+        ? amountToUsd(data.total_supply, price)
+        : undefined,
+    circulating_supply_usd:
+      data.circulating_supply !== undefined
+        ? amountToUsd(data.circulating_supply, price)
+        : undefined,
+    staked_supply_usd:
+      data.staked_supply !== undefined
+        ? amountToUsd(data.staked_supply, price)
+        : undefined,
+    vesting_supply_usd:
+      data.vesting_supply !== undefined
+        ? amountToUsd(data.vesting_supply, price)
+        : undefined,
+    mars_liquidity_usd:
+      data.mars_liquidity !== undefined
+        ? amountToUsd(data.mars_liquidity, price)
+        : undefined,
+  };
+}
+
+/**
+ * Hourly snapshot of a record, stamped with the start of the hour it was
+ * taken in.
+ */
+export function toHourlySnapshot(
+  data: DailyTokenomicsData,
+  takenAt: Date = new Date()
+): HourlySnapshot {
+  const hour = new Date(takenAt.getTime());
+  hour.setUTCMinutes(0, 0, 0);
+
+  return {
+    timestamp: hour.toISOString(),
+    total_supply: data.total_supply,
+    circulating_supply: data.circulating_supply,
+    price_usd: data.price_usd,
+    on_chain_liquidity_usd: data.on_chain_liquidity_usd,
+    carried_forward: data.carried_forward?.fields,
+  };
+}
+
+// Rewritten on every store, so left out of revision change lists
+const UNTRACKED_FIELDS = ["updated_at", "provenance"];
+
+/**
+ * Top-level fields whose values differ between two versions of a record,
+ * ignoring timestamps and provenance.
+ */
+export function diffRecords(
+  previous: DailyTokenomicsData,
+  next: DailyTokenomicsData
+): RecordChange[] {
+  const before = previous as unknown as Record<string, unknown>;
+  const after = next as unknown as Record<string, unknown>;
+  const fields = Object.keys(before)
+    .concat(Object.keys(after))
+    .filter(
+      (field, index, all) =>
+        all.indexOf(field) === index && !UNTRACKED_FIELDS.includes(field)
+    );
+
+  return fields
+    .filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .map((field) => ({
+      field,
+      previous: before[field],
+      next: after[field],
+    }));
+}